@@ -0,0 +1,205 @@
+import { describe, expect, test, afterEach } from "bun:test";
+import { BitbucketServerClient } from "../services/bitbucket-server";
+import { loadConfig } from "../shared/config";
+
+const originalFetch = globalThis.fetch;
+const REPO = "https://bitbucket.example.com/rest/api/1.0/projects/PROJ/repos/repo";
+
+function makeClient(): BitbucketServerClient {
+  return new BitbucketServerClient({
+    ...loadConfig(),
+    provider: "server",
+    serverUrl: "https://bitbucket.example.com/",
+    workspace: "PROJ",
+    repoSlug: "repo",
+    bitbucketToken: "personal-access-token",
+  });
+}
+
+const alice = { name: "alice", slug: "alice", displayName: "Alice" };
+const bot = { name: "claude-bot", slug: "claude-bot", displayName: "Claude Bot" };
+
+interface Call {
+  method: string;
+  url: string;
+  body?: unknown;
+}
+
+// Route requests by "METHOD url-suffix" to canned responses
+function stubServer(routes: Record<string, unknown>): Call[] {
+  const calls: Call[] = [];
+  globalThis.fetch = (async (input: string | URL | Request, init?: RequestInit) => {
+    const method = init?.method ?? "GET";
+    const url = input.toString();
+    calls.push({ method, url, body: init?.body ? JSON.parse(String(init.body)) : undefined });
+
+    const route = Object.keys(routes).find((key) => {
+      const [routeMethod, suffix] = key.split(" ");
+      return routeMethod === method && url.split("?")[0]!.endsWith(suffix!);
+    });
+    if (!route) return new Response("", { status: 404 });
+
+    const body = routes[route];
+    return new Response(typeof body === "string" ? body : JSON.stringify(body), { status: 200 });
+  }) as typeof fetch;
+  return calls;
+}
+
+describe("BitbucketServerClient", () => {
+  afterEach(() => {
+    globalThis.fetch = originalFetch;
+  });
+
+  test("flattens comment threads from the activity feed, listing each reply once", async () => {
+    const calls = stubServer({
+      "GET /pull-requests/7/activities": {
+        isLastPage: true,
+        values: [
+          { action: "APPROVED" },
+          // A reply gets an activity of its own too - without its parent
+          {
+            action: "COMMENTED",
+            commentAction: "ADDED",
+            comment: {
+              id: 3,
+              version: 0,
+              text: "Because.",
+              author: bot,
+              createdDate: Date.parse("2024-01-01T10:05:00Z"),
+            },
+          },
+          {
+            action: "COMMENTED",
+            commentAction: "ADDED",
+            commentAnchor: { path: "src/app.ts", line: 12, lineType: "ADDED", fileType: "TO" },
+            comment: {
+              id: 2,
+              version: 0,
+              text: "@claude why?",
+              author: alice,
+              createdDate: Date.parse("2024-01-01T10:00:00Z"),
+              comments: [
+                {
+                  id: 3,
+                  version: 0,
+                  text: "Because.",
+                  author: bot,
+                  createdDate: Date.parse("2024-01-01T10:05:00Z"),
+                },
+              ],
+            },
+          },
+          {
+            action: "COMMENTED",
+            commentAction: "ADDED",
+            comment: {
+              id: 1,
+              version: 1,
+              text: "Looks good",
+              author: alice,
+              createdDate: Date.parse("2024-01-01T09:00:00Z"),
+            },
+          },
+        ],
+      },
+    });
+
+    const comments = await makeClient().getComments(7);
+
+    expect(calls[0]?.url).toBe(`${REPO}/pull-requests/7/activities?limit=100&start=0`);
+    expect(comments.map((c) => c.id)).toEqual([1, 2, 3]);
+    expect(comments[1]).toEqual({
+      id: 2,
+      content: { raw: "@claude why?" },
+      inline: { path: "src/app.ts", from: null, to: 12 },
+      user: { display_name: "Alice", uuid: "alice" },
+      parent: undefined,
+      created_on: "2024-01-01T10:00:00.000Z",
+    });
+    expect(comments[2]?.parent).toEqual({ id: 2 });
+    expect(comments[2]?.inline?.to).toBe(12);
+  });
+
+  test("normalizes pull requests and reviewer states", async () => {
+    stubServer({
+      "GET /pull-requests/7": {
+        id: 7,
+        title: "Add feature",
+        state: "OPEN",
+        fromRef: { displayId: "feature" },
+        toRef: { displayId: "main" },
+        author: { user: alice, role: "AUTHOR", approved: false, status: "UNAPPROVED" },
+        reviewers: [{ user: bot, role: "REVIEWER", approved: false, status: "NEEDS_WORK" }],
+      },
+    });
+
+    const pr = await makeClient().getPullRequest(7);
+
+    expect(pr?.source.branch.name).toBe("feature");
+    expect(pr?.destination.branch.name).toBe("main");
+    expect(pr?.description).toBe("");
+    expect(pr?.participants).toEqual([
+      {
+        user: { display_name: "Claude Bot", uuid: "claude-bot" },
+        role: "REVIEWER",
+        approved: false,
+        state: "changes_requested",
+      },
+    ]);
+  });
+
+  test("sends the comment version when updating", async () => {
+    const calls = stubServer({
+      "GET /pull-requests/7/comments/5": { id: 5, version: 3, text: "old", author: bot },
+      "PUT /pull-requests/7/comments/5": {
+        id: 5,
+        version: 4,
+        text: "new",
+        author: bot,
+        createdDate: 0,
+      },
+    });
+
+    const updated = await makeClient().updateComment(7, 5, "new");
+
+    expect(updated?.content.raw).toBe("new");
+    expect(calls[1]?.body).toEqual({ text: "new", version: 3 });
+  });
+
+  test("sends the PR version and title when updating the description", async () => {
+    const pr = {
+      id: 7,
+      version: 2,
+      title: "Add division",
+      description: "old",
+      state: "OPEN",
+      fromRef: { displayId: "feature" },
+      toRef: { displayId: "main" },
+      author: { user: alice, role: "AUTHOR", approved: false, status: "UNAPPROVED" },
+    };
+    const calls = stubServer({
+      "GET /pull-requests/7": pr,
+      "PUT /pull-requests/7": { ...pr, version: 3, description: "new" },
+    });
+
+    const updated = await makeClient().updatePullRequest(7, { description: "new" });
+
+    expect(updated?.description).toBe("new");
+    expect(calls[1]?.body).toEqual({ version: 2, title: "Add division", description: "new" });
+  });
+
+  test("sets the reviewer status of the token's user", async () => {
+    const calls = stubServer({
+      "GET /plugins/servlet/applinks/whoami": "claude-bot",
+      "GET /users": { isLastPage: true, values: [bot] },
+      "PUT /pull-requests/7/participants/claude-bot": {},
+    });
+
+    expect(await makeClient().requestChanges(7)).toBe(true);
+    expect(calls.at(-1)?.body).toEqual({
+      user: { name: "claude-bot" },
+      approved: false,
+      status: "NEEDS_WORK",
+    });
+  });
+});
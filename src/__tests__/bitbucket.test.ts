@@ -0,0 +1,202 @@
+import { describe, expect, test, beforeEach, afterEach } from "bun:test";
+import { BitbucketClient, describeApiError } from "../services/bitbucket";
+import type { InsightsAnnotation, PRComment } from "../services/provider";
+import { loadConfig } from "../shared/config";
+
+const originalFetch = globalThis.fetch;
+
+function makeClient(): BitbucketClient {
+  return new BitbucketClient({
+    ...loadConfig(),
+    workspace: "ws",
+    repoSlug: "repo",
+    bitbucketToken: "user:app-password",
+  });
+}
+
+function comment(id: number): PRComment {
+  return {
+    id,
+    content: { raw: `comment ${id}` },
+    user: { display_name: "user", uuid: "{user}" },
+    created_on: "2024-01-01T00:00:00Z",
+  };
+}
+
+describe("BitbucketClient pagination", () => {
+  let requested: string[];
+
+  beforeEach(() => {
+    requested = [];
+  });
+
+  afterEach(() => {
+    globalThis.fetch = originalFetch;
+  });
+
+  function stubPages(pages: Record<string, { values: PRComment[]; next?: string }>) {
+    globalThis.fetch = (async (input: string | URL | Request) => {
+      const url = input.toString();
+      requested.push(url);
+      const page = Object.entries(pages).find(([key]) => url.includes(key))?.[1];
+      return new Response(JSON.stringify(page ?? { values: [] }), { status: 200 });
+    }) as typeof fetch;
+  }
+
+  test("follows next links across pages", async () => {
+    stubPages({
+      "page=2": { values: [comment(3)] },
+      "pagelen=100": {
+        values: [comment(1), comment(2)],
+        next: "https://api.bitbucket.org/2.0/repositories/ws/repo/pullrequests/1/comments?page=2",
+      },
+    });
+
+    const comments = await makeClient().getComments(1);
+
+    expect(comments.map((c) => c.id)).toEqual([1, 2, 3]);
+    expect(requested).toHaveLength(2);
+    expect(requested[0]).toContain("/pullrequests/1/comments?pagelen=100");
+  });
+
+  test("stops at the page cap", async () => {
+    stubPages({
+      comments: {
+        values: [comment(1)],
+        next: "https://api.bitbucket.org/2.0/repositories/ws/repo/pullrequests/1/comments?page=n",
+      },
+    });
+
+    const items = await makeClient().listAll<PRComment>(
+      "/repositories/ws/repo/pullrequests/1/comments",
+      { maxPages: 3 }
+    );
+
+    expect(items).toHaveLength(3);
+    expect(requested).toHaveLength(3);
+  });
+});
+
+describe("BitbucketClient errors", () => {
+  afterEach(() => {
+    globalThis.fetch = originalFetch;
+  });
+
+  function stubResponses(responses: Response[]): string[] {
+    const methods: string[] = [];
+    globalThis.fetch = (async (_input: string | URL | Request, init?: RequestInit) => {
+      methods.push(init?.method ?? "GET");
+      return responses.shift() ?? new Response("{}", { status: 200 });
+    }) as typeof fetch;
+    return methods;
+  }
+
+  test("retries rate-limited requests honoring Retry-After", async () => {
+    const calls = stubResponses([
+      new Response("slow down", { status: 429, headers: { "Retry-After": "0" } }),
+      new Response(JSON.stringify(comment(7)), { status: 201 }),
+    ]);
+
+    const posted = await makeClient().postComment(1, "hello");
+
+    expect(posted?.id).toBe(7);
+    expect(calls).toEqual(["POST", "POST"]);
+  });
+
+  test("does not retry a POST that failed with a server error", async () => {
+    const calls = stubResponses([new Response("boom", { status: 500 })]);
+    const client = makeClient();
+
+    expect(await client.postComment(1, "hello")).toBeNull();
+    expect(calls).toHaveLength(1);
+    expect(client.lastError?.kind).toBe("server");
+  });
+
+  test("reports missing scopes from a 403", async () => {
+    const body = JSON.stringify({
+      type: "error",
+      error: {
+        message: "Your credentials lack one or more required privilege scopes.",
+        detail: { granted: ["pullrequest"], required: ["pullrequest:write"] },
+      },
+    });
+    stubResponses([new Response(body, { status: 403 })]);
+    const client = makeClient();
+
+    await client.postComment(1, "hello");
+
+    expect(client.lastError?.kind).toBe("forbidden");
+    expect(describeApiError(client.lastError, "post comment")).toBe(
+      "Failed to post comment: token lacks pullrequest:write scope"
+    );
+  });
+
+  test("classifies network failures without retrying a POST", async () => {
+    globalThis.fetch = (async () => {
+      throw new TypeError("connection refused");
+    }) as unknown as typeof fetch;
+    const client = makeClient();
+
+    expect(await client.postComment(1, "hello")).toBeNull();
+    expect(client.lastError?.kind).toBe("network");
+  });
+});
+
+describe("BitbucketClient commit statuses", () => {
+  afterEach(() => {
+    globalThis.fetch = originalFetch;
+  });
+
+  test("posts build statuses to the commit", async () => {
+    let request: { url: string; body: unknown } | undefined;
+    globalThis.fetch = (async (input: string | URL | Request, init?: RequestInit) => {
+      request = { url: input.toString(), body: JSON.parse(String(init?.body)) };
+      return new Response(String(init?.body), { status: 201 });
+    }) as typeof fetch;
+
+    const status = {
+      key: "claude-review",
+      state: "FAILED" as const,
+      url: "https://bitbucket.org/ws/repo/pull-requests/1#comment-5",
+      description: "1 critical finding(s)",
+    };
+    const result = await makeClient().setBuildStatus("abc123", status);
+
+    expect(result).toBe(true);
+    expect(request?.url).toEndWith("/repositories/ws/repo/commit/abc123/statuses/build");
+    expect(request?.body).toEqual(status);
+  });
+});
+
+describe("BitbucketClient Code Insights", () => {
+  afterEach(() => {
+    globalThis.fetch = originalFetch;
+  });
+
+  test("uploads annotations in chunks of 100", async () => {
+    const requests: Array<{ method: string; url: string; count: number }> = [];
+    globalThis.fetch = (async (input: string | URL | Request, init?: RequestInit) => {
+      const body = init?.body ? JSON.parse(String(init.body)) : null;
+      requests.push({
+        method: init?.method ?? "GET",
+        url: input.toString(),
+        count: Array.isArray(body) ? body.length : 0,
+      });
+      return new Response("{}", { status: 200 });
+    }) as typeof fetch;
+
+    const annotations: InsightsAnnotation[] = Array.from({ length: 250 }, (_, i) => ({
+      external_id: `a${i}`,
+      annotation_type: "BUG",
+      summary: "finding",
+    }));
+
+    const ok = await makeClient().addAnnotations("abc123", "claude-review", annotations);
+
+    expect(ok).toBe(true);
+    expect(requests.map((r) => r.count)).toEqual([100, 100, 50]);
+    expect(requests[0]?.url).toEndWith(
+      "/repositories/ws/repo/commit/abc123/reports/claude-review/annotations"
+    );
+  });
+});
@@ -0,0 +1,67 @@
+import { describe, expect, test } from "bun:test";
+import { formatReply, formatReviewComment, sumPrSpend } from "../prompts";
+import { BudgetTracker, estimateCost } from "../shared/budget";
+
+const NO_LIMITS = { runTokens: 0, runUsd: 0, prTokens: 0, prUsd: 0 };
+
+// ~1,000 input tokens
+const PROMPT = "x".repeat(4_000);
+
+describe("estimateCost", () => {
+  test("prices by model family and returns undefined for unknown models", () => {
+    expect(estimateCost("claude-sonnet-4-5", 1_000_000, 0)).toBe(3);
+    expect(estimateCost("haiku", 0, 1_000_000)).toBe(5);
+    expect(estimateCost("my-custom-model", 1_000, 1_000)).toBeUndefined();
+  });
+});
+
+describe("BudgetTracker", () => {
+  test("does not limit anything without a budget", () => {
+    const budget = new BudgetTracker(NO_LIMITS);
+    expect(budget.chooseModel("opus", "haiku", [PROMPT, PROMPT])).toMatchObject({
+      model: "opus",
+      downgraded: false,
+      fits: true,
+    });
+  });
+
+  test("falls back to the cheaper model, then reports that nothing fits", () => {
+    // opus: ~$0.165 per call, haiku: ~$0.011
+    const budget = new BudgetTracker({ ...NO_LIMITS, runUsd: 0.05 });
+    expect(budget.chooseModel("opus", "haiku", [PROMPT])).toMatchObject({
+      model: "haiku",
+      downgraded: true,
+      fits: true,
+    });
+    expect(budget.chooseModel("opus", "haiku", Array(5).fill(PROMPT))).toMatchObject({
+      model: "haiku",
+      fits: false,
+    });
+  });
+
+  test("counts earlier runs and recorded usage against the PR budget", () => {
+    const budget = new BudgetTracker({ ...NO_LIMITS, prTokens: 9_000 }, { tokens: 4_000, usd: 0 });
+    expect(budget.fits("haiku", [PROMPT])).toBe(true);
+
+    budget.record({ inputTokens: 2_000, outputTokens: 1_000, totalTokens: 3_000 }, "haiku");
+
+    expect(budget.spent).toEqual({ tokens: 3_000, usd: 0.007 });
+    expect(budget.remaining().tokens).toBe(2_000);
+    expect(budget.fits("haiku", [PROMPT])).toBe(false);
+  });
+});
+
+describe("sumPrSpend", () => {
+  test("adds replies to the latest review total", () => {
+    const comments = [
+      formatReviewComment("First", { usage: { tokens: 1_000, usd: 0.01 } }),
+      formatReply("Answer", { tokens: 500, usd: 0.002 }),
+      formatReviewComment("Second", { usage: { tokens: 3_000, usd: 0.03 } }),
+      formatReply("No marker"),
+    ];
+
+    const spend = sumPrSpend(comments);
+    expect(spend.tokens).toBe(3_500);
+    expect(spend.usd).toBeCloseTo(0.032);
+  });
+});
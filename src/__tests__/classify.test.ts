@@ -1,5 +1,13 @@
 import { describe, expect, test } from "bun:test";
-import { classifyRequest, extractRequest } from "../modes/tag";
+import {
+  classifyRequest,
+  parseTagCommand,
+  extractRequest,
+  findOutstandingTriggers,
+  getThreadHistory,
+} from "../modes/tag";
+import { formatConversation } from "../prompts/tag";
+import type { PRComment } from "../services/provider";
 
 describe("classifyRequest", () => {
   describe("actionable requests", () => {
@@ -109,7 +117,128 @@ describe("extractRequest", () => {
     expect(extractRequest("@claude   fix this  ", "@claude")).toBe("fix this");
   });
 
+  test("ignores trigger phrase inside quotes", () => {
+    expect(extractRequest("> @claude old\n@claude new request", "@claude")).toBe("new request");
+  });
+
   test("returns original if only trigger phrase", () => {
     expect(extractRequest("@claude", "@claude")).toBe("@claude");
   });
 });
+
+describe("findOutstandingTriggers", () => {
+  const comment = (
+    id: number,
+    raw: string,
+    extra: Partial<PRComment> = {},
+    uuid = "{user}"
+  ): PRComment => ({
+    id,
+    content: { raw },
+    user: { display_name: uuid, uuid },
+    created_on: new Date(Date.UTC(2024, 0, id)).toISOString(),
+    ...extra,
+  });
+
+  test("returns all unanswered triggers, oldest first", () => {
+    const triggers = findOutstandingTriggers(
+      [comment(3, "@claude second"), comment(1, "@claude first"), comment(2, "no mention")],
+      "@claude"
+    );
+
+    expect(triggers.map((c) => c.id)).toEqual([1, 3]);
+  });
+
+  test("skips triggers the bot already replied to", () => {
+    const triggers = findOutstandingTriggers(
+      [
+        comment(1, "@claude answered"),
+        comment(2, "Done", { parent: { id: 1 } }, "{bot}"),
+        comment(3, "@claude pending"),
+        comment(4, "me too", { parent: { id: 3 } }),
+      ],
+      "@claude",
+      "{bot}"
+    );
+
+    expect(triggers.map((c) => c.id)).toEqual([3]);
+  });
+
+  test("ignores the bot's own comments and mentions in quotes or code", () => {
+    const triggers = findOutstandingTriggers(
+      [
+        comment(1, "Ask @claude anything", {}, "{bot}"),
+        comment(2, "> @claude fix this\n\nI disagree"),
+        comment(3, "Use `@claude` to ask"),
+        comment(4, "```\n@claude in code\n```"),
+      ],
+      "@claude",
+      "{bot}"
+    );
+
+    expect(triggers).toEqual([]);
+  });
+});
+
+describe("getThreadHistory", () => {
+  const comment = (id: number, parent?: number): PRComment => ({
+    id,
+    content: { raw: `comment ${id}` },
+    user: { display_name: "user", uuid: "{user}" },
+    created_on: new Date(Date.UTC(2024, 0, id)).toISOString(),
+    parent: parent ? { id: parent } : undefined,
+  });
+
+  test("collects the parent chain and sibling replies posted before the trigger", () => {
+    const comments = [comment(1), comment(2, 1), comment(3), comment(4, 2), comment(5, 1)];
+    const trigger = comments[3]!;
+
+    expect(getThreadHistory(comments, trigger).map((c) => c.id)).toEqual([1, 2]);
+    expect(getThreadHistory(comments, comments[4]!).map((c) => c.id)).toEqual([1, 2, 4]);
+  });
+});
+
+describe("formatConversation", () => {
+  test("keeps the most recent messages within the budget", () => {
+    const transcript = formatConversation(
+      [
+        { author: "alice", isBot: false, content: "a".repeat(400) },
+        { author: "bob", isBot: true, content: "short answer" },
+      ],
+      20
+    );
+
+    expect(transcript).toContain("1 earlier message(s) omitted");
+    expect(transcript).toContain("**Claude:**\nshort answer");
+    expect(transcript).not.toContain("alice");
+  });
+});
+
+describe("parseTagCommand", () => {
+  test("parses a command with a target and free text", () => {
+    expect(parseTagCommand("/explain src/math.ts:10-20 why divide here?")).toEqual({
+      name: "explain",
+      target: { path: "src/math.ts", from: 10, to: 20 },
+      args: "why divide here?",
+    });
+    expect(parseTagCommand("/FIX README.md:3 typo")).toEqual({
+      name: "fix",
+      target: { path: "README.md", from: 3, to: 3 },
+      args: "typo",
+    });
+  });
+
+  test("treats a leading word that is not a path as free text", () => {
+    expect(parseTagCommand("/review focus on error handling")).toEqual({
+      name: "review",
+      target: undefined,
+      args: "focus on error handling",
+    });
+    expect(parseTagCommand("/help")).toEqual({ name: "help" });
+  });
+
+  test("leaves free-form requests to the classifier and rejects unknown commands", () => {
+    expect(parseTagCommand("please explain this")).toBeNull();
+    expect(parseTagCommand("/deploy now")).toEqual({ error: "Unknown command `/deploy`." });
+  });
+});
@@ -0,0 +1,68 @@
+import { describe, expect, test } from "bun:test";
+import { parseCli } from "../cli";
+
+describe("parseCli", () => {
+  test("defaults to running the mode from the environment", () => {
+    expect(parseCli([]).options).toEqual({
+      command: { kind: "run" },
+      overrides: {},
+      output: undefined,
+    });
+  });
+
+  test("maps subcommands and flags to config overrides", () => {
+    const { options } = parseCli([
+      "tag",
+      "--pr",
+      "42",
+      "--repo",
+      "acme/widgets",
+      "--model",
+      "sonnet",
+      "--dry-run",
+      "--output=result.json",
+    ]);
+
+    expect(options?.command).toEqual({ kind: "run", mode: "tag" });
+    expect(options?.overrides).toEqual({
+      mode: "tag",
+      prId: 42,
+      workspace: "acme",
+      repoSlug: "widgets",
+      model: "sonnet",
+      dryRun: true,
+    });
+    expect(options?.output).toBe("result.json");
+  });
+
+  test("parses config check and help", () => {
+    expect(parseCli(["config", "check"]).options?.command).toEqual({ kind: "config-check" });
+    expect(parseCli(["help"]).options?.command).toEqual({ kind: "help" });
+    expect(parseCli(["describe"]).options?.overrides).toEqual({ mode: "describe" });
+    expect(parseCli(["review", "-h"]).options?.command).toEqual({ kind: "help" });
+  });
+
+  test("parses usage report with its grouping and format", () => {
+    expect(parseCli(["usage", "report"]).options?.command).toEqual({
+      kind: "usage-report",
+      groupBy: ["repo", "mode", "model", "month"],
+      format: "table",
+    });
+    expect(
+      parseCli(["usage", "report", "--group-by", "month,repo", "--format", "csv"]).options?.command
+    ).toEqual({ kind: "usage-report", groupBy: ["month", "repo"], format: "csv" });
+
+    expect(parseCli(["usage", "report", "--group-by", "team"]).error).toContain("--group-by");
+    expect(parseCli(["usage", "report", "--format", "xlsx"]).error).toContain("--format");
+    expect(parseCli(["review", "--format", "csv"]).error).toContain("only apply to usage report");
+  });
+
+  test("reports usage errors", () => {
+    expect(parseCli(["deploy"]).error).toBe("Unknown command: deploy");
+    expect(parseCli(["config"]).error).toContain('expected "check"');
+    expect(parseCli(["review", "extra"]).error).toBe("Unexpected argument: extra");
+    expect(parseCli(["--pr", "abc"]).error).toContain("--pr must be a positive integer");
+    expect(parseCli(["--repo", "widgets"]).error).toContain("--repo must be <workspace>/<slug>");
+    expect(parseCli(["--verbose"]).error).toBeDefined();
+  });
+});
@@ -1,5 +1,12 @@
 import { describe, expect, test, beforeEach, afterEach } from "bun:test";
-import { loadConfig, validateConfig } from "../shared/config";
+import {
+  formatResolvedConfig,
+  loadConfig,
+  validateConfig,
+  validateServerConfig,
+} from "../shared/config";
+import { loadRepoConfig, parseRepoConfig } from "../shared/repo-config";
+import { createTestRepo } from "./helpers/git-repo";
 
 describe("loadConfig", () => {
   const originalEnv = { ...process.env };
@@ -49,6 +56,26 @@ describe("loadConfig", () => {
     expect(loadConfig().mode).toBe("review");
   });
 
+  test("selects Data Center when a server URL is set", () => {
+    expect(loadConfig().provider).toBe("cloud");
+
+    process.env.BITBUCKET_SERVER_URL = "https://bitbucket.example.com";
+    expect(loadConfig().provider).toBe("server");
+
+    process.env.BITBUCKET_PROVIDER = "cloud";
+    expect(loadConfig().provider).toBe("cloud");
+  });
+
+  test("parses REVIEW_COMMENT_MODE and defaults to edit", () => {
+    expect(loadConfig().reviewCommentMode).toBe("edit");
+
+    process.env.REVIEW_COMMENT_MODE = "replace";
+    expect(loadConfig().reviewCommentMode).toBe("replace");
+
+    process.env.REVIEW_COMMENT_MODE = "bogus";
+    expect(loadConfig().reviewCommentMode).toBe("edit");
+  });
+
   test("parses VERBOSE correctly", () => {
     process.env.VERBOSE = "true";
     expect(loadConfig().verbose).toBe(true);
@@ -68,6 +95,30 @@ describe("loadConfig", () => {
   });
 });
 
+describe("formatResolvedConfig", () => {
+  test("prints every value with the credentials masked", () => {
+    const config = {
+      ...loadConfig(),
+      model: "sonnet",
+      bitbucketToken: "bot:app-password-1234",
+      anthropicApiKey: "sk-ant-test",
+      webhookSecret: "",
+    };
+
+    const printed = JSON.parse(formatResolvedConfig(config));
+
+    expect(printed).toMatchObject({
+      model: "sonnet",
+      bitbucketToken: "[REDACTED]",
+      anthropicApiKey: "[REDACTED]",
+      webhookSecret: "",
+      tools: config.tools,
+      budget: config.budget,
+    });
+    expect(Object.keys(printed)).toEqual(Object.keys(config));
+  });
+});
+
 describe("validateConfig", () => {
   test("returns errors for missing required fields", () => {
     const config = loadConfig();
@@ -100,4 +151,121 @@ describe("validateConfig", () => {
 
     expect(errors).toEqual([]);
   });
+
+  test("the webhook server needs credentials and a secret, not a repository", () => {
+    const config = {
+      ...loadConfig(),
+      workspace: "",
+      repoSlug: "",
+      anthropicApiKey: "key",
+      bitbucketToken: "token",
+    };
+
+    expect(validateServerConfig(config)).toEqual([
+      "WEBHOOK_SECRET is required to verify webhook signatures",
+    ]);
+    expect(validateServerConfig({ ...config, webhookSecret: "secret" })).toEqual([]);
+  });
+});
+
+describe("repository config file", () => {
+  const originalEnv = { ...process.env };
+
+  afterEach(() => {
+    process.env = { ...originalEnv };
+  });
+
+  test("parses valid settings", () => {
+    const { values, errors } = parseRepoConfig(
+      Bun.YAML.parse(`
+model: sonnet
+maxTurns: 10
+ignorePaths: ["**/*.lock", "dist/**"]
+severityThreshold: important
+reviewInstructions: Focus on SQL injection
+tools:
+  readOnly: [Read, Grep]
+  fullAccess: [Read, Edit, "Bash(git log:*)"]
+`),
+      ".claude-review.yml"
+    );
+
+    expect(errors).toEqual([]);
+    expect(values).toMatchObject({
+      model: "sonnet",
+      maxTurns: 10,
+      ignorePaths: ["**/*.lock", "dist/**"],
+      severityThreshold: "important",
+      tools: { readOnly: ["Read", "Grep"], fullAccess: ["Read", "Edit", "Bash(git log:*)"] },
+    });
+  });
+
+  test("reports the offending key for invalid values", () => {
+    const { errors } = parseRepoConfig(
+      { maxTurns: "lots", severityThreshold: "urgent", modle: "x", tools: { readOnly: ["Sudo"] } },
+      ".claude-review.yml"
+    );
+
+    expect(errors).toHaveLength(4);
+    expect(errors[0]).toBe(
+      '.claude-review.yml: "maxTurns" must be a positive integer (got "lots")'
+    );
+    expect(errors[1]).toContain('"severityThreshold" must be one of');
+    expect(errors[2]).toContain('unknown key "modle"');
+    expect(errors[3]).toContain('"tools.readOnly" contains unknown tools');
+  });
+
+  test("environment variables take precedence over the file", () => {
+    delete process.env.MODEL;
+    delete process.env.MAX_TURNS;
+    process.env.TRIGGER_PHRASE = "@bot";
+
+    const config = loadConfig({ model: "sonnet", maxTurns: 5, triggerPhrase: "@claude-review" });
+
+    expect(config.model).toBe("sonnet");
+    expect(config.maxTurns).toBe(5);
+    expect(config.triggerPhrase).toBe("@bot");
+  });
+
+  test("rejects anything but read-only tools in the read-only tool set", () => {
+    const { values, errors } = parseRepoConfig(
+      {
+        tools: { readOnly: ["Read", "LS", "Bash(git log:*)", "Write", "NotebookEdit", "WebFetch"] },
+      },
+      ".claude-review.yml"
+    );
+
+    expect(values.tools).toEqual({});
+    expect(errors).toEqual([
+      '.claude-review.yml: "tools.readOnly" may only contain read-only tools (Read, Grep, Glob, LS) (got ["Bash(git log:*)","Write","NotebookEdit","WebFetch"])',
+    ]);
+  });
+
+  test("read-only tools never include anything but read-only tools", () => {
+    const config = loadConfig({ tools: { readOnly: ["Read", "LS", "Bash", "WebSearch"] } });
+
+    expect(config.tools.readOnly.allowedTools).toEqual(["Read", "LS"]);
+    expect(config.tools.readOnly.blockedTools).toEqual(["Write", "Edit", "MultiEdit", "Bash"]);
+  });
+
+  test("reads the file from the destination branch, not the PR", () => {
+    const repo = createTestRepo(
+      { ".claude-review.yml": "model: sonnet\n" },
+      { ".claude-review.yml": "model: opus\ntools:\n  readOnly: [Read, Bash]\n" }
+    );
+    const originalDir = process.env.BITBUCKET_CLONE_DIR;
+    process.env.BITBUCKET_CLONE_DIR = repo.dir;
+
+    try {
+      expect(loadRepoConfig("main")).toEqual({
+        path: "origin/main:.claude-review.yml",
+        values: { model: "sonnet" },
+        errors: [],
+      });
+      expect(loadRepoConfig("missing")).toEqual({ values: {}, errors: [] });
+    } finally {
+      process.env.BITBUCKET_CLONE_DIR = originalDir;
+      repo.cleanup();
+    }
+  });
 });
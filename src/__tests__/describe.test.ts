@@ -0,0 +1,54 @@
+import { describe, expect, test } from "bun:test";
+import {
+  formatDescription,
+  mergeDescription,
+  parseDescribeOutput,
+  splitDescription,
+} from "../prompts/describe";
+
+const DESCRIPTION = {
+  summary: "Adds a div helper.",
+  motivation: "",
+  changes: ["New `div` function"],
+  testing: "",
+  risk: "Low",
+};
+
+describe("parseDescribeOutput", () => {
+  test("reads the JSON block and drops empty sections", () => {
+    const output =
+      "Here you go:\n```json\n" +
+      JSON.stringify({ ...DESCRIPTION, changes: ["New `div` function", ""], extra: 1 }) +
+      "\n```";
+
+    expect(parseDescribeOutput(output)).toEqual(DESCRIPTION);
+    expect(parseDescribeOutput("A plain paragraph")).toBeNull();
+    expect(parseDescribeOutput('{"summary": ""}')).toBeNull();
+  });
+});
+
+describe("description sections", () => {
+  test("renders only the sections that have content", () => {
+    const section = formatDescription(DESCRIPTION, "abc1234");
+
+    expect(section).toStartWith("[//]: # (claude-description head=abc1234)\n\n## Summary");
+    expect(section).toContain("## Notable Changes\n\n- New `div` function");
+    expect(section).not.toContain("## Motivation");
+    expect(section).toEndWith("[//]: # (claude-description-end)");
+  });
+
+  test("keeps the author's text around the generated section", () => {
+    const first = mergeDescription("Closes #12.", formatDescription(DESCRIPTION, "abc1234"));
+    const edited = `${first}\n\nThanks $& all`;
+    const rerun = mergeDescription(edited, formatDescription({ ...DESCRIPTION, risk: "$1" }));
+
+    expect(rerun).toStartWith("Closes #12.\n\n[//]: # (claude-description)\n");
+    expect(rerun).toContain("## Risk\n\n$1");
+    expect(rerun).toEndWith("\n\nThanks $& all");
+    expect(splitDescription(rerun)).toMatchObject({
+      authorText: "Closes #12.\n\nThanks $& all",
+      headSha: undefined,
+    });
+    expect(splitDescription("Just text")).toEqual({ authorText: "Just text", generated: null });
+  });
+});
@@ -0,0 +1,295 @@
+/**
+ * In-process stand-in for the Bitbucket Cloud API, for end-to-end tests
+ * Keeps PRs, comments, approvals, build statuses and Code Insights reports in memory
+ */
+
+import type { Server } from "bun";
+import type {
+  BitbucketUser,
+  BuildStatus,
+  InsightsAnnotation,
+  InsightsReport,
+  PRComment,
+  PullRequest,
+} from "../../services/provider";
+
+/** User the fake server authenticates every token as */
+export const BOT_USER: BitbucketUser = { uuid: "{bot}", display_name: "Claude Bot" };
+
+/** A request the fake server received */
+export interface RecordedRequest {
+  method: string;
+  path: string;
+  body: unknown;
+}
+
+interface Failure {
+  method: string;
+  pattern: RegExp;
+  status: number;
+  message: string;
+}
+
+export interface FakeBitbucketOptions {
+  /** Maximum page size, to force pagination */
+  pageSize?: number;
+}
+
+/**
+ * Fake Bitbucket Cloud API server
+ */
+export class FakeBitbucket {
+  readonly requests: RecordedRequest[] = [];
+  readonly pullRequests = new Map<number, PullRequest>();
+  readonly comments = new Map<number, PRComment[]>();
+  readonly statuses: Array<{ commit: string } & BuildStatus> = [];
+  readonly reports = new Map<
+    string,
+    { report: InsightsReport; annotations: InsightsAnnotation[] }
+  >();
+  /** The bot's approval state per PR */
+  readonly decisions = new Map<number, "approved" | "changes_requested">();
+
+  private server: Server<undefined> | null = null;
+  private failures: Failure[] = [];
+  private nextCommentId = 1;
+  private clock = Date.parse("2024-01-01T00:00:00Z");
+
+  constructor(private options: FakeBitbucketOptions = {}) {}
+
+  /** API base URL to configure the client with */
+  get url(): string {
+    if (!this.server) throw new Error("Fake Bitbucket is not running");
+    return `http://localhost:${this.server.port}/2.0`;
+  }
+
+  start(): this {
+    this.server = Bun.serve({ port: 0, fetch: (request) => this.handle(request) });
+    return this;
+  }
+
+  stop(): void {
+    this.server?.stop(true);
+    this.server = null;
+  }
+
+  /**
+   * Add a pull request (comments start empty)
+   */
+  addPullRequest(id: number, overrides: Partial<PullRequest> = {}): PullRequest {
+    const pr: PullRequest = {
+      id,
+      title: `PR ${id}`,
+      description: "",
+      source: { branch: { name: "feature" } },
+      destination: { branch: { name: "main" } },
+      author: { display_name: "Alice" },
+      state: "OPEN",
+      ...overrides,
+    };
+    this.pullRequests.set(id, pr);
+    this.comments.set(id, this.comments.get(id) ?? []);
+    return pr;
+  }
+
+  /**
+   * Add a comment as another user (or as the bot)
+   */
+  addComment(
+    prId: number,
+    raw: string,
+    extra: Partial<Omit<PRComment, "id" | "content">> = {}
+  ): PRComment {
+    const comment: PRComment = {
+      id: this.nextCommentId++,
+      content: { raw },
+      user: { display_name: "Alice", uuid: "{alice}" },
+      created_on: this.tick(),
+      ...extra,
+    };
+    this.commentsOf(prId).push(comment);
+    return comment;
+  }
+
+  /**
+   * Make the next request matching `method` and `pattern` fail with `status`
+   */
+  failNext(method: string, pattern: RegExp, status: number, message = "Injected failure"): void {
+    this.failures.push({ method, pattern, status, message });
+  }
+
+  /** Requests with the given method whose path matches */
+  requestsTo(method: string, pattern: RegExp): RecordedRequest[] {
+    return this.requests.filter((r) => r.method === method && pattern.test(r.path));
+  }
+
+  private async handle(request: Request): Promise<Response> {
+    const url = new URL(request.url);
+    const path = url.pathname.replace(/^\/2\.0/, "");
+    const method = request.method;
+    const text = await request.text();
+    const body = text ? JSON.parse(text) : undefined;
+    this.requests.push({ method, path, body });
+
+    const failure = this.failures.findIndex((f) => f.method === method && f.pattern.test(path));
+    if (failure !== -1) {
+      const { status, message } = this.failures.splice(failure, 1)[0]!;
+      return error(status, message);
+    }
+
+    if (method === "GET" && path === "/user") {
+      return json(BOT_USER);
+    }
+
+    const pr = path.match(/^\/repositories\/[^/]+\/[^/]+\/pullrequests\/(\d+)(\/.*)?$/);
+    if (pr) {
+      return this.handlePullRequest(method, Number(pr[1]), pr[2] ?? "", url, body);
+    }
+
+    const status = path.match(/^\/repositories\/[^/]+\/[^/]+\/commit\/(\w+)\/statuses\/build$/);
+    if (status && method === "POST") {
+      this.statuses.push({ commit: status[1]!, ...body });
+      return json(body, 201);
+    }
+
+    const report = path.match(
+      /^\/repositories\/[^/]+\/[^/]+\/commit\/(\w+)\/reports\/([^/]+)(\/annotations)?$/
+    );
+    if (report) {
+      const key = `${report[1]}/${report[2]}`;
+      if (method === "PUT" && !report[3]) {
+        this.reports.set(key, { report: body, annotations: [] });
+        return json(body);
+      }
+      if (method === "POST" && report[3] && this.reports.has(key)) {
+        this.reports.get(key)!.annotations.push(...body);
+        return json(body);
+      }
+    }
+
+    return error(404, `No route for ${method} ${path}`);
+  }
+
+  private handlePullRequest(
+    method: string,
+    prId: number,
+    rest: string,
+    url: URL,
+    body: Record<string, unknown> | undefined
+  ): Response {
+    const pr = this.pullRequests.get(prId);
+    if (!pr) return error(404, `Pull request ${prId} not found`);
+
+    if (method === "GET" && rest === "") {
+      const decision = this.decisions.get(prId);
+      return json({
+        ...pr,
+        participants: decision
+          ? [
+              {
+                user: BOT_USER,
+                role: "REVIEWER",
+                approved: decision === "approved",
+                state: decision,
+              },
+            ]
+          : [],
+      });
+    }
+
+    if (method === "PUT" && rest === "") {
+      const updated = { ...pr, ...(body as Partial<PullRequest>) };
+      this.pullRequests.set(prId, updated);
+      return json(updated);
+    }
+
+    if (rest === "/comments") {
+      if (method === "GET") return this.page(this.commentsOf(prId), url);
+      if (method === "POST") return json(this.postComment(prId, body ?? {}), 201);
+    }
+
+    const comment = rest.match(/^\/comments\/(\d+)$/);
+    if (comment) {
+      const comments = this.commentsOf(prId);
+      const index = comments.findIndex((c) => c.id === Number(comment[1]));
+      if (index === -1) return error(404, "Comment not found");
+
+      if (method === "PUT") {
+        const content = body?.content as { raw: string };
+        comments[index] = { ...comments[index]!, content: { raw: content.raw } };
+        return json(comments[index]);
+      }
+      if (method === "DELETE") {
+        comments.splice(index, 1);
+        return new Response(null, { status: 204 });
+      }
+    }
+
+    const decision = rest.match(/^\/(approve|request-changes)$/);
+    if (decision) {
+      const state = decision[1] === "approve" ? "approved" : "changes_requested";
+      if (method === "POST") {
+        this.decisions.set(prId, state);
+        return json({ state });
+      }
+      if (method === "DELETE" && this.decisions.get(prId) === state) {
+        this.decisions.delete(prId);
+        return new Response(null, { status: 204 });
+      }
+    }
+
+    return error(404, `No route for ${method} ${url.pathname}`);
+  }
+
+  private postComment(prId: number, body: Record<string, unknown>): PRComment {
+    const inline = body.inline as { path: string; to: number } | undefined;
+    const parent = body.parent as { id: number } | undefined;
+
+    return this.addComment(prId, (body.content as { raw: string }).raw, {
+      user: BOT_USER,
+      inline: inline ? { path: inline.path, from: null, to: inline.to } : undefined,
+      parent,
+    });
+  }
+
+  // Helper: serve a page of a list, Bitbucket style (`page` is 1-based, `next` is absolute)
+  private page<T>(items: T[], url: URL): Response {
+    const requested = Number(url.searchParams.get("pagelen") ?? 10);
+    const pagelen = Math.min(requested, this.options.pageSize ?? requested);
+    const page = Number(url.searchParams.get("page") ?? 1);
+    const values = items.slice((page - 1) * pagelen, page * pagelen);
+
+    let next: string | undefined;
+    if (page * pagelen < items.length) {
+      const nextUrl = new URL(url);
+      nextUrl.searchParams.set("page", String(page + 1));
+      next = nextUrl.toString();
+    }
+
+    return json({ values, next, pagelen, size: items.length });
+  }
+
+  private commentsOf(prId: number): PRComment[] {
+    if (!this.comments.has(prId)) this.comments.set(prId, []);
+    return this.comments.get(prId)!;
+  }
+
+  // Helper: strictly increasing timestamps, one minute apart
+  private tick(): string {
+    this.clock += 60_000;
+    return new Date(this.clock).toISOString();
+  }
+}
+
+// Helper: JSON response
+function json(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+}
+
+// Helper: error response in Bitbucket's format
+function error(status: number, message: string): Response {
+  return json({ type: "error", error: { message } }, status);
+}
@@ -0,0 +1,56 @@
+/**
+ * Scripted stand-in for the Claude CLI, for end-to-end tests
+ * Puts ./bin/claude first on PATH and feeds it canned responses
+ */
+
+import { existsSync, readFileSync, writeFileSync } from "fs";
+import { join } from "path";
+
+/** One scripted Claude invocation */
+export interface FakeClaudeResponse {
+  /** Text returned as the result */
+  result?: string;
+  /** Files to write (relative to the working directory) before answering */
+  files?: Record<string, string>;
+  /** Exit with this code instead of answering */
+  exitCode?: number;
+  error?: string;
+}
+
+/** A recorded invocation */
+export interface FakeClaudeCall {
+  args: string[];
+  prompt: string;
+  /** Environment the CLI was started with */
+  env: Record<string, string>;
+}
+
+/**
+ * Install the fake CLI with the given responses (one per call, the last one repeats)
+ * Returns a handle to read the recorded calls and restore the environment
+ */
+export function useFakeClaude(dir: string, responses: FakeClaudeResponse[]) {
+  const scriptPath = join(dir, "fake-claude.json");
+  writeFileSync(scriptPath, JSON.stringify(responses));
+
+  const originalPath = process.env.PATH;
+  const originalScript = process.env.FAKE_CLAUDE_SCRIPT;
+  process.env.PATH = `${join(import.meta.dir, "bin")}:${originalPath}`;
+  process.env.FAKE_CLAUDE_SCRIPT = scriptPath;
+
+  return {
+    calls(): FakeClaudeCall[] {
+      const callsPath = `${scriptPath}.calls`;
+      return existsSync(callsPath) ? JSON.parse(readFileSync(callsPath, "utf-8")) : [];
+    },
+
+    restore(): void {
+      process.env.PATH = originalPath;
+      if (originalScript === undefined) {
+        delete process.env.FAKE_CLAUDE_SCRIPT;
+      } else {
+        process.env.FAKE_CLAUDE_SCRIPT = originalScript;
+      }
+    },
+  };
+}
@@ -0,0 +1,69 @@
+/**
+ * Throwaway git repositories for end-to-end tests
+ * A bare "origin" plus a clone with `main` and a `feature` branch on top of it
+ */
+
+import { execFileSync } from "child_process";
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { dirname, join } from "path";
+
+export interface TestRepo {
+  /** Temporary directory holding everything (remove with `cleanup`) */
+  root: string;
+  /** Working clone, checked out on `feature` */
+  dir: string;
+  git(...args: string[]): string;
+  /** Write files and commit them on the current branch */
+  commit(message: string, files: Record<string, string>): string;
+  cleanup(): void;
+}
+
+/**
+ * Create a repository whose `feature` branch changes `base` into `changes`
+ * Both branches are pushed to the bare origin
+ */
+export function createTestRepo(
+  base: Record<string, string>,
+  changes: Record<string, string>
+): TestRepo {
+  const root = mkdtempSync(join(tmpdir(), "claude-e2e-"));
+  const origin = join(root, "origin.git");
+  const dir = join(root, "work");
+
+  const run = (cwd: string, args: string[]) =>
+    execFileSync("git", ["-c", "user.name=Test", "-c", "user.email=test@example.com", ...args], {
+      cwd,
+      encoding: "utf-8",
+      stdio: "pipe",
+    });
+
+  run(root, ["init", "--bare", "-b", "main", origin]);
+  run(root, ["clone", origin, dir]);
+
+  const repo: TestRepo = {
+    root,
+    dir,
+    git: (...args) => run(dir, args),
+    commit(message, files) {
+      for (const [path, content] of Object.entries(files)) {
+        mkdirSync(dirname(join(dir, path)), { recursive: true });
+        writeFileSync(join(dir, path), content);
+      }
+      run(dir, ["add", "-A"]);
+      run(dir, ["commit", "-m", message]);
+      return run(dir, ["rev-parse", "HEAD"]).trim();
+    },
+    cleanup: () => rmSync(root, { recursive: true, force: true }),
+  };
+
+  repo.git("checkout", "-b", "main");
+  repo.commit("Initial commit", base);
+  repo.git("push", "-u", "origin", "main");
+
+  repo.git("checkout", "-b", "feature");
+  repo.commit("Feature work", changes);
+  repo.git("push", "-u", "origin", "feature");
+
+  return repo;
+}
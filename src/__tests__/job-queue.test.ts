@@ -0,0 +1,117 @@
+import { describe, expect, test, afterEach } from "bun:test";
+import { mkdtempSync, readFileSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { JobQueue } from "../services/job-queue";
+import type { WebhookJob } from "../services/webhook";
+
+function job(prId: number, mode: "review" | "tag" = "review", headSha?: string): WebhookJob {
+  return {
+    mode,
+    workspace: "acme",
+    repoSlug: "widgets",
+    prId,
+    sourceBranch: "feature",
+    destinationBranch: "main",
+    headSha,
+    cloneUrl: "https://bitbucket.org/acme/widgets.git",
+  };
+}
+
+// Runner whose jobs finish only when the test says so
+function controllableRunner() {
+  const runs: Array<{ job: WebhookJob; signal: AbortSignal; finish: (ok: boolean) => void }> = [];
+  const run = (job: WebhookJob, signal: AbortSignal) =>
+    new Promise<boolean>((resolve) => runs.push({ job, signal, finish: resolve }));
+  return { runs, run };
+}
+
+describe("JobQueue", () => {
+  let dir: string | undefined;
+
+  afterEach(() => {
+    if (dir) rmSync(dir, { recursive: true, force: true });
+    dir = undefined;
+  });
+
+  test("limits concurrency and runs one job per PR at a time", async () => {
+    const { runs, run } = controllableRunner();
+    const queue = new JobQueue({ concurrency: 2, run });
+
+    queue.enqueue(job(1, "tag"));
+    queue.enqueue(job(1, "tag"));
+    queue.enqueue(job(2, "tag"));
+    queue.enqueue(job(3, "tag"));
+
+    expect(runs.map((r) => r.job.prId)).toEqual([1, 2]);
+
+    runs[0]!.finish(true);
+    await Bun.sleep(0);
+    expect(runs.map((r) => r.job.prId)).toEqual([1, 2, 1]);
+
+    runs[1]!.finish(true);
+    runs[2]!.finish(true);
+    await Bun.sleep(0);
+    expect(runs.map((r) => r.job.prId)).toEqual([1, 2, 1, 3]);
+
+    runs[3]!.finish(true);
+    await queue.idle();
+  });
+
+  test("keeps only the latest review of a PR", async () => {
+    const { runs, run } = controllableRunner();
+    const queue = new JobQueue({ concurrency: 1, run });
+
+    queue.enqueue(job(1, "review", "aaa"));
+    expect(queue.enqueue(job(1, "review", "aaa"))).toBeNull();
+
+    const stale = queue.enqueue(job(1, "review", "bbb"));
+    const tag = queue.enqueue(job(1, "tag"));
+    const latest = queue.enqueue(job(1, "review", "ccc"));
+
+    // The running review is cancelled, the queued one replaced; the tag job stays
+    expect(runs[0]!.signal.aborted).toBe(true);
+    expect(stale?.status).toBe("cancelled");
+    expect(queue.pending()).toEqual([tag!, latest!]);
+
+    runs[0]!.finish(false);
+    await Bun.sleep(0);
+    expect(runs[1]?.job.mode).toBe("tag");
+
+    runs[1]!.finish(true);
+    await Bun.sleep(0);
+    expect(runs[2]?.job.headSha).toBe("ccc");
+    runs[2]!.finish(true);
+    await queue.idle();
+
+    expect(latest?.status).toBe("succeeded");
+  });
+
+  test("resumes unfinished jobs from the log", async () => {
+    dir = mkdtempSync(join(tmpdir(), "job-queue-"));
+    const logPath = join(dir, "jobs.jsonl");
+    const first = controllableRunner();
+    const before = new JobQueue({ concurrency: 1, run: first.run, logPath });
+
+    before.enqueue(job(1, "tag"));
+    before.enqueue(job(2, "tag"));
+    before.enqueue(job(3, "tag"));
+    first.runs[0]!.finish(true);
+    await Bun.sleep(0);
+    // Process "stops" here: PR 2 running, PR 3 queued
+
+    const second = controllableRunner();
+    const after = new JobQueue({ concurrency: 2, run: second.run, logPath });
+
+    expect(after.restore()).toBe(2);
+    expect(second.runs.map((r) => r.job.prId)).toEqual([2, 3]);
+
+    const lines = readFileSync(logPath, "utf-8").trim().split("\n");
+    expect(lines.map((line) => JSON.parse(line).status)).toEqual([
+      "queued",
+      "running",
+      "queued",
+      "running",
+    ]);
+  });
+});
@@ -0,0 +1,458 @@
+import { describe, expect, test } from "bun:test";
+import { parseReviewOutput, formatReviewComment, parseReviewMetadata } from "../prompts/review";
+import {
+  placeFindings,
+  mergeReviews,
+  findReviewComment,
+  buildInsightsReport,
+  decideReviewOutcome,
+  decideReviewStatus,
+  planDecisionSteps,
+} from "../modes/review";
+import type { PRComment } from "../services/provider";
+import { parseDiff, getCommentableLines, batchDiff, type FileDiff } from "../utils/diff";
+import { filterDiffFiles, parseGitattributes, type DiffFilterRules } from "../utils/diff-filter";
+
+const DIFF = `diff --git a/src/app.ts b/src/app.ts
+index 1111111..2222222 100644
+--- a/src/app.ts
++++ b/src/app.ts
+@@ -10,4 +10,5 @@ export function main() {
+   const a = 1;
+-  const b = 2;
++  const b = 3;
++  const c = 4;
+   return a + b;
+ }
+diff --git a/src/old.ts b/src/old.ts
+deleted file mode 100644
+index 3333333..0000000
+--- a/src/old.ts
++++ /dev/null
+@@ -1,2 +0,0 @@
+-export const x = 1;
+-export const y = 2;
+`;
+
+describe("parseDiff", () => {
+  test("splits files and hunks", () => {
+    const files = parseDiff(DIFF);
+
+    expect(files.map((f) => f.path)).toEqual(["src/app.ts", "src/old.ts"]);
+    expect(files[0]?.hunks).toHaveLength(1);
+    expect(files[0]?.hunks[0]?.newStart).toBe(10);
+    expect(files[1]?.isDeleted).toBe(true);
+  });
+
+  test("collects new-side line numbers", () => {
+    const file = parseDiff(DIFF)[0]!;
+    expect([...getCommentableLines(file)]).toEqual([10, 11, 12, 13, 14]);
+  });
+});
+
+describe("parseReviewOutput", () => {
+  test("parses findings from a fenced json block", () => {
+    const output = `Here is my review:
+\`\`\`json
+{
+  "summary": "One bug found",
+  "findings": [
+    { "file": "src/app.ts", "line": 11, "severity": "critical", "message": "Wrong value", "suggestion": "Use 2" }
+  ]
+}
+\`\`\``;
+
+    const review = parseReviewOutput(output);
+
+    expect(review?.summary).toBe("One bug found");
+    expect(review?.findings).toEqual([
+      {
+        file: "src/app.ts",
+        line: 11,
+        severity: "critical",
+        message: "Wrong value",
+        suggestion: "Use 2",
+      },
+    ]);
+  });
+
+  test("drops malformed findings and defaults unknown severity", () => {
+    const output = JSON.stringify({
+      summary: "ok",
+      findings: [
+        { file: "a.ts", line: "3", severity: "HUGE", message: "m" },
+        { file: "b.ts", message: "no line" },
+        "not an object",
+      ],
+    });
+
+    const review = parseReviewOutput(output);
+
+    expect(review?.findings).toHaveLength(1);
+    expect(review?.findings[0]).toMatchObject({ file: "a.ts", line: 3, severity: "minor" });
+  });
+
+  test("returns null for free-form text", () => {
+    expect(parseReviewOutput("LGTM")).toBeNull();
+  });
+});
+
+describe("placeFindings", () => {
+  test("keeps findings on changed lines inline and moves the rest to the summary", () => {
+    const { inline, unplaced } = placeFindings(
+      [
+        { file: "src/app.ts", line: 12, severity: "important", message: "in hunk" },
+        { file: "src/app.ts", line: 40, severity: "minor", message: "outside hunk" },
+        { file: "src/other.ts", line: 1, severity: "minor", message: "not in diff" },
+        { file: "src/old.ts", line: 1, severity: "minor", message: "deleted file" },
+      ],
+      DIFF
+    );
+
+    expect(inline.map((f) => f.message)).toEqual(["in hunk"]);
+    expect(unplaced.map((f) => f.message)).toEqual(["outside hunk", "not in diff", "deleted file"]);
+  });
+});
+
+describe("batchDiff", () => {
+  test("keeps a small diff in one batch", () => {
+    const { batches, skipped } = batchDiff(parseDiff(DIFF), 1_000, 5);
+
+    expect(batches).toHaveLength(1);
+    expect(batches[0]?.files).toEqual(["src/app.ts", "src/old.ts"]);
+    expect(skipped).toEqual([]);
+  });
+
+  test("splits files across batches and reports what didn't fit", () => {
+    const files = parseDiff(DIFF);
+    const { batches, skipped } = batchDiff(files, 80, 1);
+
+    expect(batches).toHaveLength(1);
+    expect(batches[0]?.files).toEqual(["src/app.ts"]);
+    expect(skipped).toEqual([{ path: "src/old.ts", reason: "batch limit reached (1 batches)" }]);
+  });
+
+  test("skips binary files", () => {
+    const binary =
+      "diff --git a/logo.png b/logo.png\nBinary files a/logo.png and b/logo.png differ\n";
+    const { batches, skipped } = batchDiff(parseDiff(binary), 1_000, 5);
+
+    expect(batches).toEqual([]);
+    expect(skipped).toEqual([{ path: "logo.png", reason: "binary file" }]);
+  });
+});
+
+describe("filterDiffFiles", () => {
+  const rules: DiffFilterRules = {
+    include: [],
+    exclude: [],
+    useDefaults: true,
+    generated: [],
+    notGenerated: [],
+  };
+
+  function file(path: string, overrides: Partial<FileDiff> = {}): FileDiff {
+    return {
+      path,
+      oldPath: path,
+      isNew: false,
+      isDeleted: false,
+      isBinary: false,
+      hunks: [],
+      header: "",
+      raw: "",
+      ...overrides,
+    };
+  }
+
+  function excludedPaths(files: FileDiff[], overrides: Partial<DiffFilterRules> = {}) {
+    return filterDiffFiles(files, { ...rules, ...overrides }).excluded;
+  }
+
+  test("skips lockfiles, vendored and generated files by default", () => {
+    const files = [
+      file("src/app.ts"),
+      file("bun.lock"),
+      file("web/package-lock.json"),
+      file("vendor/lib/a.php"),
+      file("public/app.min.js"),
+      file("src/__snapshots__/app.test.ts.snap"),
+    ];
+
+    const { files: kept, excluded } = filterDiffFiles(files, rules);
+
+    expect(kept.map((f) => f.path)).toEqual(["src/app.ts"]);
+    expect(excluded.map((e) => e.reason)).toEqual([
+      "lockfile",
+      "lockfile",
+      "vendored code",
+      "generated file",
+      "generated file",
+    ]);
+  });
+
+  test("applies include and exclude globs", () => {
+    const files = [file("src/app.ts"), file("src/legacy/old.ts"), file("docs/guide.md")];
+
+    expect(excludedPaths(files, { include: ["src/**"], exclude: ["src/legacy/**"] })).toEqual([
+      { path: "src/legacy/old.ts", reason: "ignored by config (`src/legacy/**`)" },
+      { path: "docs/guide.md", reason: "not matched by includePaths" },
+    ]);
+  });
+
+  test("detects binary and minified content", () => {
+    const hunk = { header: "", oldStart: 1, oldLines: 0, newStart: 1, newLines: 1 };
+    const longLine = { ...hunk, lines: [`+${"x".repeat(2_000)}`] };
+    const files = [
+      file("logo.png", { isBinary: true }),
+      file("src/bundle.js", { hunks: [longLine] }),
+      file("public/theme.css", { hunks: [longLine] }),
+      // Long lines in source files are reviewed like any other change
+      file("src/fixtures.ts", { hunks: [longLine] }),
+    ];
+
+    expect(excludedPaths(files).map((e) => e.reason)).toEqual([
+      "binary file",
+      "minified or generated content (very long lines)",
+      "minified or generated content (very long lines)",
+    ]);
+  });
+
+  test("honors linguist attributes from .gitattributes", () => {
+    const attributes = parseGitattributes(
+      ["# generated code", "api/*.ts linguist-generated", "/dist/** -linguist-generated"].join("\n")
+    );
+    const files = [file("api/client.ts"), file("dist/index.js")];
+
+    expect(attributes).toEqual({ generated: ["api/*.ts"], notGenerated: ["dist/**"] });
+    expect(excludedPaths(files, attributes)).toEqual([
+      { path: "api/client.ts", reason: "marked generated/vendored in .gitattributes" },
+    ]);
+  });
+
+  test("can turn the built-in defaults off", () => {
+    expect(excludedPaths([file("bun.lock")], { useDefaults: false })).toEqual([]);
+  });
+});
+
+describe("mergeReviews", () => {
+  test("de-duplicates findings and keeps the highest severity", () => {
+    const merged = mergeReviews([
+      {
+        summary: "LGTM",
+        findings: [{ file: "a.ts", line: 1, severity: "minor", message: "Null check" }],
+      },
+      {
+        summary: "Missing null check",
+        findings: [{ file: "a.ts", line: 1, severity: "critical", message: "null check" }],
+      },
+    ]);
+
+    expect(merged.summary).toBe("Missing null check");
+    expect(merged.findings).toHaveLength(1);
+    expect(merged.findings[0]?.severity).toBe("critical");
+  });
+
+  test("reports LGTM only when every batch was clean", () => {
+    expect(mergeReviews([{ summary: "LGTM", findings: [] }]).summary).toBe("LGTM");
+  });
+});
+
+describe("buildInsightsReport", () => {
+  const coverage = { reviewed: ["src/app.ts"], skipped: [], excluded: [] };
+
+  test("fails the report when there are critical findings", () => {
+    const { report, annotations } = buildInsightsReport(
+      {
+        summary: "Two problems.",
+        findings: [
+          { file: "./src/app.ts", line: 12, severity: "minor", message: "Naming" },
+          {
+            file: "src/app.ts",
+            line: 11,
+            severity: "critical",
+            message: "SQL injection",
+            suggestion: "Use a parameterized query",
+          },
+        ],
+      },
+      coverage
+    );
+
+    expect(report.result).toBe("FAILED");
+    expect(report.data?.[0]).toEqual({ title: "Critical", type: "NUMBER", value: 1 });
+    expect(annotations).toEqual([
+      {
+        external_id: "claude-review-1",
+        annotation_type: "BUG",
+        summary: "SQL injection",
+        details: "Suggestion: Use a parameterized query",
+        path: "src/app.ts",
+        line: 11,
+        severity: "CRITICAL",
+      },
+      {
+        external_id: "claude-review-2",
+        annotation_type: "CODE_SMELL",
+        summary: "Naming",
+        details: undefined,
+        path: "src/app.ts",
+        line: 12,
+        severity: "LOW",
+      },
+    ]);
+  });
+
+  test("passes the report without critical findings", () => {
+    const { report, annotations } = buildInsightsReport(
+      { summary: "LGTM", findings: [] },
+      coverage
+    );
+
+    expect(report.result).toBe("PASSED");
+    expect(report.details).toBe("LGTM");
+    expect(annotations).toEqual([]);
+  });
+
+  test("fails the report like the build status: carried-over or incomplete", () => {
+    const clean = { summary: "LGTM", findings: [] };
+    const skipped = [{ path: "src/big.ts", reason: "over the cost budget" }];
+
+    expect(buildInsightsReport(clean, coverage, "critical").report.result).toBe("FAILED");
+    expect(buildInsightsReport(clean, coverage, "minor").report.result).toBe("PASSED");
+    expect(buildInsightsReport(clean, { ...coverage, skipped }).report.result).toBe("FAILED");
+  });
+});
+
+describe("approval policy", () => {
+  const critical = { file: "a.ts", line: 1, severity: "critical" as const, message: "Bug" };
+  const minor = { file: "a.ts", line: 2, severity: "minor" as const, message: "Nit" };
+  const policy = { requestChangesOn: "critical" as const, approveWhenClean: true };
+
+  const clean = { complete: true, current: "none" as const };
+
+  test("requests changes on findings at or above the policy severity", () => {
+    expect(decideReviewOutcome([minor, critical], clean, policy)).toBe("request_changes");
+    expect(decideReviewOutcome([minor], clean, policy)).toBe("none");
+    expect(decideReviewOutcome([minor], clean, { ...policy, requestChangesOn: "minor" })).toBe(
+      "request_changes"
+    );
+  });
+
+  test("approves only a clean, complete review when enabled", () => {
+    expect(decideReviewOutcome([], clean, policy)).toBe("approve");
+    expect(decideReviewOutcome([], { ...clean, complete: false }, policy)).toBe("none");
+    expect(decideReviewOutcome([], clean, { ...policy, approveWhenClean: false })).toBe("none");
+  });
+
+  test("keeps the current state when the review is incomplete", () => {
+    const incomplete = { complete: false, current: "request_changes" as const };
+    expect(decideReviewOutcome([], incomplete, policy)).toBe("request_changes");
+    expect(decideReviewOutcome([], { ...incomplete, current: "approve" }, policy)).toBe("approve");
+    expect(decideReviewOutcome([critical], { ...incomplete, current: "approve" }, policy)).toBe(
+      "request_changes"
+    );
+  });
+
+  test("counts findings carried over from earlier reviews", () => {
+    expect(decideReviewOutcome([], { ...clean, carried: "critical" }, policy)).toBe(
+      "request_changes"
+    );
+    expect(decideReviewOutcome([], { ...clean, carried: "minor" }, policy)).toBe("none");
+  });
+
+  test("withdraws the earlier decision before applying a new one", () => {
+    expect(planDecisionSteps("request_changes", "approve")).toEqual([
+      "removeChangeRequest",
+      "approve",
+    ]);
+    expect(planDecisionSteps("approve", "none")).toEqual(["unapprove"]);
+    expect(planDecisionSteps("request_changes", "request_changes")).toEqual([]);
+  });
+});
+
+describe("build status", () => {
+  const critical = { file: "a.ts", line: 1, severity: "critical" as const, message: "Bug" };
+  const minor = { file: "a.ts", line: 2, severity: "minor" as const, message: "Nit" };
+  const coverage = { reviewed: ["a.ts"], skipped: [], excluded: [] };
+
+  test("passes a complete review without critical findings", () => {
+    expect(decideReviewStatus([minor], coverage, "important", false)).toEqual({
+      state: "SUCCESSFUL",
+      description: "Review passed (1 finding(s))",
+    });
+  });
+
+  test("fails on critical findings, including ones carried over", () => {
+    expect(decideReviewStatus([critical], coverage, undefined, false).state).toBe("FAILED");
+    expect(decideReviewStatus([], coverage, "critical", false)).toEqual({
+      state: "FAILED",
+      description: "Critical finding(s) from an earlier review not re-checked",
+    });
+  });
+
+  test("fails when files were skipped or nothing was reviewed", () => {
+    const skipped = [{ path: "b.ts", reason: "over the cost budget" }];
+    expect(decideReviewStatus([], { ...coverage, skipped }, undefined, false)).toEqual({
+      state: "FAILED",
+      description: "Review incomplete (1 file(s) not reviewed)",
+    });
+    expect(decideReviewStatus([], { ...coverage, reviewed: [] }, undefined, false)).toEqual({
+      state: "FAILED",
+      description: "No files were reviewed",
+    });
+  });
+});
+
+describe("review metadata", () => {
+  const HEAD = "a".repeat(40);
+  const BASE = "b".repeat(40);
+
+  const comment = (id: number, raw: string, created: string): PRComment => ({
+    id,
+    content: { raw },
+    user: { display_name: "bot", uuid: "{bot}" },
+    created_on: created,
+  });
+
+  test("round-trips through the posted comment", () => {
+    const body = formatReviewComment("LGTM", { metadata: { headSha: HEAD, baseSha: BASE } });
+    expect(parseReviewMetadata(body)).toEqual({ headSha: HEAD, baseSha: BASE });
+  });
+
+  test("round-trips the open severity through the comment marker", () => {
+    const body = formatReviewComment("LGTM", {
+      metadata: { headSha: HEAD, baseSha: BASE, openSeverity: "important" },
+    });
+    expect(body).toContain(`claude-review head=${HEAD} base=${BASE} open=important)`);
+    expect(parseReviewMetadata(body)).toEqual({
+      headSha: HEAD,
+      baseSha: BASE,
+      openSeverity: "important",
+    });
+  });
+
+  test("finds the most recent review comment", () => {
+    const older = formatReviewComment("old", { metadata: { headSha: BASE, baseSha: BASE } });
+    const newer = formatReviewComment("new", { metadata: { headSha: HEAD, baseSha: BASE } });
+
+    const found = findReviewComment([
+      comment(1, older, "2024-01-01T00:00:00Z"),
+      comment(2, "unrelated", "2024-01-03T00:00:00Z"),
+      comment(3, newer, "2024-01-02T00:00:00Z"),
+    ]);
+
+    expect(found?.id).toBe(3);
+    expect(parseReviewMetadata(found!.content.raw)?.headSha).toBe(HEAD);
+  });
+
+  test("ignores review comments from other authors when the bot is known", () => {
+    const body = formatReviewComment("copied");
+    const found = findReviewComment(
+      [{ ...comment(1, body, "2024-01-01T00:00:00Z"), user: { display_name: "x", uuid: "{x}" } }],
+      "{bot}"
+    );
+
+    expect(found).toBeNull();
+  });
+});
@@ -0,0 +1,68 @@
+import { describe, expect, test } from "bun:test";
+import {
+  aggregateUsage,
+  formatUsageCsv,
+  formatUsageTable,
+  type UsageEntry,
+} from "../services/usage-ledger";
+
+function entry(overrides: Partial<UsageEntry>): UsageEntry {
+  return {
+    at: "2026-09-14T10:00:00.000Z",
+    workspace: "acme",
+    repo: "widgets",
+    prId: 1,
+    mode: "review",
+    model: "haiku",
+    durationMs: 2_000,
+    outcome: "success",
+    inputTokens: 1_000,
+    outputTokens: 200,
+    totalTokens: 1_200,
+    costUsd: 0.01,
+    ...overrides,
+  };
+}
+
+const ENTRIES = [
+  entry({}),
+  entry({ mode: "tag", outcome: "failed", costUsd: undefined }),
+  entry({ at: "2026-10-01T08:00:00.000Z", costUsd: 0.02 }),
+  entry({ repo: "gadgets", model: "sonnet", costUsd: 0.5 }),
+];
+
+describe("aggregateUsage", () => {
+  test("totals calls per group, sorted by group", () => {
+    const rows = aggregateUsage(ENTRIES, ["repo", "month"]);
+
+    expect(rows.map((r) => r.group)).toEqual([
+      { repo: "acme/gadgets", month: "2026-09" },
+      { repo: "acme/widgets", month: "2026-09" },
+      { repo: "acme/widgets", month: "2026-10" },
+    ]);
+    expect(rows[1]).toMatchObject({ calls: 2, failed: 1, totalTokens: 2_400, costUsd: 0.01 });
+  });
+});
+
+describe("usage reports", () => {
+  test("export CSV with one column per grouping", () => {
+    const csv = formatUsageCsv(aggregateUsage(ENTRIES, ["model"]), ["model"]);
+
+    expect(csv).toBe(
+      [
+        "model,calls,failed,input_tokens,output_tokens,total_tokens,cost_usd,duration_s",
+        "haiku,3,1,3000,600,3600,0.0300,6.0",
+        "sonnet,1,0,1000,200,1200,0.5000,2.0",
+        "",
+      ].join("\n")
+    );
+  });
+
+  test("print an aligned table with a total line", () => {
+    const table = formatUsageTable(aggregateUsage(ENTRIES, ["mode"]), ["mode"]).split("\n");
+
+    expect(table[0]).toStartWith("mode    calls  failed");
+    expect(table.at(-2)).toStartWith("TOTAL   4      1");
+    expect(formatUsageTable([], ["mode"])).toBe("No usage recorded.\n");
+  });
+});
@@ -0,0 +1,112 @@
+import { describe, expect, test } from "bun:test";
+import { createHmac } from "crypto";
+import { createWebhookHandler } from "../modes/server";
+import { parseWebhook, verifySignature, type WebhookJob } from "../services/webhook";
+import { loadConfig } from "../shared/config";
+
+const SECRET = "webhook-secret";
+
+function sign(body: string, secret = SECRET): string {
+  return `sha256=${createHmac("sha256", secret).update(body).digest("hex")}`;
+}
+
+function prPayload(extra: object = {}) {
+  return {
+    repository: {
+      full_name: "acme/widgets",
+      links: { html: { href: "https://bitbucket.org/acme/widgets" } },
+    },
+    pullrequest: {
+      id: 7,
+      state: "OPEN",
+      source: { branch: { name: "feature" } },
+      destination: { branch: { name: "develop" } },
+    },
+    ...extra,
+  };
+}
+
+describe("verifySignature", () => {
+  test("accepts the HMAC of the body and rejects anything else", () => {
+    const body = '{"a":1}';
+
+    expect(verifySignature(SECRET, body, sign(body))).toBe(true);
+    expect(verifySignature(SECRET, body + " ", sign(body))).toBe(false);
+    expect(verifySignature(SECRET, body, sign(body, "other"))).toBe(false);
+    expect(verifySignature(SECRET, body, null)).toBe(false);
+    expect(verifySignature("", body, sign(body, ""))).toBe(false);
+  });
+});
+
+describe("parseWebhook", () => {
+  test("reviews created and updated pull requests", () => {
+    expect(parseWebhook("pullrequest:updated", prPayload())).toEqual({
+      job: {
+        mode: "review",
+        workspace: "acme",
+        repoSlug: "widgets",
+        prId: 7,
+        sourceBranch: "feature",
+        destinationBranch: "develop",
+        cloneUrl: "https://bitbucket.org/acme/widgets.git",
+      },
+    });
+  });
+
+  test("runs tag mode for every comment, whatever its trigger phrase", () => {
+    const mention = prPayload({ comment: { content: { raw: "@claude explain" } } });
+    const other = prPayload({ comment: { content: { raw: "@reviewbot explain" } } });
+
+    expect(parseWebhook("pullrequest:comment_created", mention)).toMatchObject({
+      job: { mode: "tag", prId: 7 },
+    });
+    expect(parseWebhook("pullrequest:comment_created", other)).toMatchObject({
+      job: { mode: "tag", prId: 7 },
+    });
+  });
+
+  test("ignores other events, closed PRs and incomplete payloads", () => {
+    const merged = prPayload();
+    merged.pullrequest.state = "MERGED";
+
+    expect(parseWebhook("repo:push", prPayload())).toHaveProperty("ignored");
+    expect(parseWebhook("pullrequest:updated", merged)).toEqual({
+      ignored: "pull request #7 is merged",
+    });
+    expect(parseWebhook("pullrequest:created", {})).toHaveProperty("ignored");
+  });
+});
+
+describe("createWebhookHandler", () => {
+  const config = { ...loadConfig(), webhookSecret: SECRET };
+
+  function post(body: string, headers: Record<string, string>) {
+    return new Request("http://localhost/webhook", { method: "POST", body, headers });
+  }
+
+  test("dispatches signed events and answers before the job runs", async () => {
+    const jobs: WebhookJob[] = [];
+    const handle = createWebhookHandler(config, (job) => jobs.push(job));
+    const body = JSON.stringify(prPayload());
+
+    const response = await handle(
+      post(body, { "X-Event-Key": "pullrequest:created", "X-Hub-Signature": sign(body) })
+    );
+
+    expect(response.status).toBe(202);
+    expect(jobs.map((job) => job.prId)).toEqual([7]);
+  });
+
+  test("rejects unsigned requests", async () => {
+    const jobs: WebhookJob[] = [];
+    const handle = createWebhookHandler(config, (job) => jobs.push(job));
+    const body = JSON.stringify(prPayload());
+
+    const response = await handle(
+      post(body, { "X-Event-Key": "pullrequest:created", "X-Hub-Signature": sign(body, "guess") })
+    );
+
+    expect(response.status).toBe(401);
+    expect(jobs).toHaveLength(0);
+  });
+});
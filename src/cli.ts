@@ -0,0 +1,190 @@
+/**
+ * Command-line interface
+ * Parses subcommands and flags; flags override environment variables and the repository config file
+ */
+
+import { parseArgs } from "util";
+import type { Config } from "./shared/config";
+import type { Mode } from "./shared/types";
+import { USAGE_DIMENSIONS, isUsageDimension, type UsageDimension } from "./services/usage-ledger";
+
+export const HELP_TEXT = `Usage: claude-bitbucket-review [command] [options]
+
+Commands:
+  review          Review the pull request
+  tag             Respond to @claude mentions in the pull request comments
+  describe        Write the pull request description from the diff and commit messages
+  serve           Run a webhook server that reviews and answers PRs as events arrive
+  config check    Validate the configuration and print the resolved values
+  usage report    Summarize the Claude usage ledger (USAGE_LEDGER)
+  help            Show this help
+
+Without a command, the mode comes from the MODE environment variable (default: review).
+
+Options:
+  --pr <id>                  Pull request ID (overrides BITBUCKET_PR_ID)
+  --repo <workspace/slug>    Repository (overrides BITBUCKET_WORKSPACE and BITBUCKET_REPO_SLUG)
+  --model <name>             Claude model (overrides MODEL)
+  --dry-run                  Run without changing the PR: print the writes instead (overrides DRY_RUN)
+  --output <file>            Write the result as JSON (or the usage report) to <file>
+  --port <port>              Webhook server port (overrides WEBHOOK_PORT)
+  --group-by <list>          usage report: comma-separated repo, mode, model, month (default: all)
+  --format <table|csv>       usage report: output format (default: table)
+  -h, --help                 Show this help
+
+Exit codes:
+  0  success
+  1  the review, tag or describe run failed
+  2  invalid command line
+  3  invalid configuration
+  4  Claude CLI not available
+  5  unexpected error
+`;
+
+/** What the command line asks for */
+export type CliCommand =
+  | { kind: "run"; mode?: Mode } // mode unset: fall back to MODE
+  | { kind: "serve" }
+  | { kind: "config-check" }
+  | { kind: "usage-report"; groupBy: UsageDimension[]; format: "table" | "csv" }
+  | { kind: "help" };
+
+export interface CliOptions {
+  command: CliCommand;
+  /** Config values set by flags */
+  overrides: Partial<Config>;
+  output?: string;
+}
+
+/** Result of parsing the command line - `error` is a usage error */
+export interface CliParseResult {
+  options?: CliOptions;
+  error?: string;
+}
+
+/**
+ * Parse command-line arguments (without the runtime and script path)
+ */
+export function parseCli(argv: string[]): CliParseResult {
+  let parsed;
+  try {
+    parsed = parseArgs({
+      args: argv,
+      allowPositionals: true,
+      options: {
+        pr: { type: "string" },
+        repo: { type: "string" },
+        model: { type: "string" },
+        "dry-run": { type: "boolean" },
+        output: { type: "string" },
+        port: { type: "string" },
+        "group-by": { type: "string" },
+        format: { type: "string" },
+        help: { type: "boolean", short: "h" },
+      },
+    });
+  } catch (error) {
+    return { error: error instanceof Error ? error.message : String(error) };
+  }
+
+  const { values, positionals } = parsed;
+  const command = values.help ? { kind: "help" as const } : parseCommand(positionals);
+  if ("error" in command) return { error: command.error };
+
+  if (command.kind === "usage-report") {
+    const groupBy = values["group-by"]?.split(",").map((d) => d.trim()) ?? [...USAGE_DIMENSIONS];
+    const unknown = groupBy.find((d) => !isUsageDimension(d));
+    if (unknown !== undefined) {
+      return { error: `--group-by takes ${USAGE_DIMENSIONS.join(", ")}, got "${unknown}"` };
+    }
+    if (values.format !== undefined && values.format !== "table" && values.format !== "csv") {
+      return { error: `--format must be table or csv, got "${values.format}"` };
+    }
+    command.groupBy = groupBy.filter(isUsageDimension);
+    command.format = values.format ?? "table";
+  } else if (values["group-by"] !== undefined || values.format !== undefined) {
+    return { error: "--group-by and --format only apply to usage report" };
+  }
+
+  const overrides: Partial<Config> = {};
+
+  if (values.pr !== undefined) {
+    if (!/^\d+$/.test(values.pr) || Number(values.pr) === 0) {
+      return { error: `--pr must be a positive integer, got "${values.pr}"` };
+    }
+    overrides.prId = Number(values.pr);
+  }
+
+  if (values.repo !== undefined) {
+    const [workspace, repoSlug, ...rest] = values.repo.split("/");
+    if (!workspace || !repoSlug || rest.length > 0) {
+      return { error: `--repo must be <workspace>/<slug>, got "${values.repo}"` };
+    }
+    overrides.workspace = workspace;
+    overrides.repoSlug = repoSlug;
+  }
+
+  if (values.model !== undefined) {
+    if (!values.model) return { error: "--model must not be empty" };
+    overrides.model = values.model;
+  }
+
+  if (values.port !== undefined) {
+    if (!/^\d+$/.test(values.port) || Number(values.port) === 0) {
+      return { error: `--port must be a positive integer, got "${values.port}"` };
+    }
+    overrides.webhookPort = Number(values.port);
+  }
+
+  if (values["dry-run"]) {
+    overrides.dryRun = true;
+  }
+
+  if (command.kind === "run" && command.mode) {
+    overrides.mode = command.mode;
+  }
+
+  return {
+    options: {
+      command,
+      overrides,
+      output: values.output,
+    },
+  };
+}
+
+// Helper: map positional arguments to a command
+function parseCommand(positionals: string[]): CliCommand | { error: string } {
+  const [name, ...rest] = positionals;
+
+  if (name === "config") {
+    if (rest.length === 1 && rest[0] === "check") return { kind: "config-check" };
+    return { error: `Unknown config command: ${rest.join(" ") || "(none)"} (expected "check")` };
+  }
+
+  if (name === "usage") {
+    if (rest.length === 1 && rest[0] === "report") {
+      return { kind: "usage-report", groupBy: [...USAGE_DIMENSIONS], format: "table" };
+    }
+    return { error: `Unknown usage command: ${rest.join(" ") || "(none)"} (expected "report")` };
+  }
+
+  if (rest.length > 0) {
+    return { error: `Unexpected argument: ${rest[0]}` };
+  }
+
+  switch (name) {
+    case undefined:
+      return { kind: "run" };
+    case "review":
+    case "tag":
+    case "describe":
+      return { kind: "run", mode: name };
+    case "serve":
+      return { kind: "serve" };
+    case "help":
+      return { kind: "help" };
+    default:
+      return { error: `Unknown command: ${name}` };
+  }
+}
@@ -5,53 +5,127 @@
  * Entry point - coordinates the review/tag modes
  *
  * Modes:
- * - review: Automatically review PR when created (MODE=review)
- * - tag: Respond to @claude mentions in comments (MODE=tag)
+ * - review: Automatically review PR when created (MODE=review or `review`)
+ * - tag: Respond to @claude mentions in comments (MODE=tag or `tag`)
+ * - describe: Write the PR description from the diff and commits (MODE=describe or `describe`)
+ * - serve: Webhook server running review/tag for incoming Bitbucket events
+ * - usage report: Aggregate the Claude usage ledger
+ *
+ * Run with --help for the command-line interface
  */
 
-import { loadConfig, validateConfig } from "./shared/config";
-import { BitbucketClient } from "./services/bitbucket";
+import { writeFileSync } from "fs";
+import { parseCli, HELP_TEXT } from "./cli";
+import {
+  configSecrets,
+  formatResolvedConfig,
+  loadConfig,
+  validateConfig,
+  validateServerConfig,
+  type Config,
+} from "./shared/config";
+import { EXIT_CODES } from "./shared/constants";
+import type { ModeResult } from "./shared/types";
+import { loadRepoConfig } from "./shared/repo-config";
+import { createBitbucketProvider, type BitbucketProvider } from "./services/provider";
+import { DryRunProvider } from "./services/dry-run";
+import {
+  aggregateUsage,
+  formatUsageCsv,
+  formatUsageTable,
+  readUsageLedger,
+  type UsageDimension,
+} from "./services/usage-ledger";
 import { logger, setVerbose } from "./utils/logger";
+import { redact, registerSecrets } from "./utils/redact";
 import { shouldRunReview, runReviewMode } from "./modes/review";
 import { shouldRunTag, runTagMode } from "./modes/tag";
+import { shouldRunDescribe, runDescribeMode } from "./modes/describe";
+import { startWebhookServer } from "./modes/server";
 import { ensureClaudeCLI } from "./utils/install-claude";
 
 async function main(): Promise<void> {
+  // Step 1: Parse the command line
+  const cli = parseCli(process.argv.slice(2));
+  if (!cli.options) {
+    console.error(`Error: ${cli.error}\n\nRun with --help for usage.`);
+    process.exit(EXIT_CODES.usage);
+  }
+
+  const { command, overrides, output } = cli.options;
+  if (command.kind === "help") {
+    console.log(HELP_TEXT);
+    process.exit(EXIT_CODES.success);
+  }
+
+  // The report goes to stdout, so it runs before anything is logged there
+  if (command.kind === "usage-report") {
+    usageReport(command.groupBy, command.format, output);
+    process.exit(EXIT_CODES.success);
+  }
+
   logger.info("Claude Bitbucket Review starting...");
 
-  // Step 1: Ensure Claude CLI is installed
-  const claudeReady = await ensureClaudeCLI();
-  if (!claudeReady) {
-    logger.error("Claude CLI is required but not available");
-    process.exit(1);
+  if (command.kind === "serve") {
+    await serve(overrides);
+    return;
   }
 
-  // Step 2: Load configuration from environment variables
-  const config = loadConfig();
+  // Step 2: Load configuration (flags override environment variables, which override the repository config file)
+  //         The file is read from the destination branch, so the PR can't configure its own review
+  const repoConfig = loadRepoConfig(loadConfig().destinationBranch);
+  const config: Config = { ...loadConfig(repoConfig.values), ...overrides };
+  registerSecrets(...configSecrets(config));
   setVerbose(true);
 
-  logger.info(config.bitbucketToken);
   logger.info(`Mode: ${config.mode}`);
+  logger.info(
+    `Bitbucket: ${config.provider === "server" ? `Data Center (${config.serverUrl})` : "Cloud"}`
+  );
   logger.info(`Workspace: ${config.workspace || "(not set)"}`);
   logger.info(`Repo: ${config.repoSlug || "(not set)"}`);
   logger.info(`PR ID: ${config.prId || "(not set)"}`);
   logger.info(`Trigger: ${config.triggerPhrase}`);
   logger.info(`Model: ${config.model}`);
+  logger.info(`Repository config: ${repoConfig.path || "(none)"}`);
+  if (config.dryRun) {
+    logger.info("Dry run: nothing will be written to the PR or pushed");
+  }
 
   // Step 3: Validate required configuration
-  const errors = validateConfig(config);
+  const errors = [...repoConfig.errors, ...validateConfig(config)];
   if (errors.length > 0) {
     logger.error("Configuration errors:");
     for (const error of errors) {
       logger.error(`  - ${error}`);
     }
-    process.exit(1);
+    process.exit(EXIT_CODES.config);
   }
 
   logger.success("Configuration valid!");
 
-  // Step 4: Create Bitbucket client (for posting comments)
-  const client = new BitbucketClient(config);
+  // The default ledger is in a temporary directory a pipeline build doesn't keep
+  if (process.env.USAGE_LEDGER === undefined) {
+    logger.warn(
+      `USAGE_LEDGER is not set - usage is recorded in ${config.usageLedger}, which is lost with the build`
+    );
+  }
+
+  if (command.kind === "config-check") {
+    logger.info("Resolved configuration:");
+    console.log(redact(formatResolvedConfig(config)));
+    process.exit(EXIT_CODES.success);
+  }
+
+  // Step 4: Ensure Claude CLI is installed
+  const claudeReady = await ensureClaudeCLI();
+  if (!claudeReady) {
+    logger.error("Claude CLI is required but not available");
+    process.exit(EXIT_CODES.claudeUnavailable);
+  }
+
+  // Step 5: Create Bitbucket client (for posting comments)
+  const client = createBitbucketProvider(config);
 
   // Test git access
   const { getChangedFiles } = await import("./utils/git");
@@ -64,21 +138,22 @@ async function main(): Promise<void> {
 
   logger.success("Setup complete!");
 
-  // Step 5: Run appropriate mode
+  // Step 6: Run appropriate mode
   try {
     if (config.mode === "review") {
       // Review mode: automatically review the PR
       if (!shouldRunReview(config)) {
         logger.info("Review mode skipped (no PR ID)");
-        process.exit(0);
+        process.exit(EXIT_CODES.success);
       }
 
       logger.info("Running review mode...");
       const result = await runReviewMode(config, client);
+      writeResult(output, config, client, result);
 
       if (!result.success) {
         logger.error("Review failed:", result.error);
-        process.exit(1);
+        process.exit(EXIT_CODES.runFailed);
       }
 
       if (result.reviewPosted) {
@@ -86,37 +161,129 @@ async function main(): Promise<void> {
       } else {
         logger.info("Review completed (no comment posted)");
       }
+
+      if (result.decision) {
+        logger.info(`Approval state: ${result.decision}`);
+      }
     } else if (config.mode === "tag") {
       // Tag mode: respond to @claude mentions
       if (!shouldRunTag(config)) {
         logger.info("Tag mode skipped (no PR ID)");
-        process.exit(0);
+        process.exit(EXIT_CODES.success);
       }
 
       logger.info("Running tag mode...");
       const result = await runTagMode(config, client);
+      writeResult(output, config, client, result);
 
       if (!result.success) {
         logger.error("Tag mode failed:", result.error);
-        process.exit(1);
+        process.exit(EXIT_CODES.runFailed);
+      }
+
+      if (result.commitSha) {
+        logger.success(`Pushed commit ${result.commitSha}`);
       }
 
       if (result.responded) {
-        logger.success(`Responded to comment #${result.commentId}`);
+        logger.success(`Responded to ${result.respondedTo?.length ?? 1} comment(s)`);
       } else {
         logger.info("No @claude mentions to respond to");
       }
+    } else if (config.mode === "describe") {
+      // Describe mode: write the generated PR description
+      if (!shouldRunDescribe(config)) {
+        logger.info("Describe mode skipped (no PR ID)");
+        process.exit(EXIT_CODES.success);
+      }
+
+      logger.info("Running describe mode...");
+      const result = await runDescribeMode(config, client);
+      writeResult(output, config, client, result);
+
+      if (!result.success) {
+        logger.error("Describe mode failed:", result.error);
+        process.exit(EXIT_CODES.runFailed);
+      }
+
+      if (result.updated) {
+        logger.success("PR description updated!");
+      } else {
+        logger.info("PR description unchanged");
+      }
     } else {
       logger.error(`Unknown mode: ${config.mode}`);
-      process.exit(1);
+      process.exit(EXIT_CODES.config);
     }
 
     logger.success("Done!");
-    process.exit(0);
+    process.exit(EXIT_CODES.success);
   } catch (error) {
     logger.error("Fatal error:", error);
-    process.exit(1);
+    process.exit(EXIT_CODES.fatal);
+  }
+}
+
+// Helper: start the webhook server (runs until the process is stopped)
+async function serve(overrides: Partial<Config>): Promise<void> {
+  const config: Config = { ...loadConfig(), ...overrides };
+  registerSecrets(...configSecrets(config));
+  setVerbose(true);
+
+  const errors = validateServerConfig(config);
+  if (errors.length > 0) {
+    logger.error("Configuration errors:");
+    for (const error of errors) {
+      logger.error(`  - ${error}`);
+    }
+    process.exit(EXIT_CODES.config);
   }
+
+  if (!(await ensureClaudeCLI())) {
+    logger.error("Claude CLI is required but not available");
+    process.exit(EXIT_CODES.claudeUnavailable);
+  }
+
+  logger.info(`Work directory: ${config.workDir}`);
+  startWebhookServer(config, overrides);
+}
+
+// Helper: print (or write to a file) the usage ledger, aggregated
+function usageReport(
+  groupBy: UsageDimension[],
+  format: "table" | "csv",
+  output: string | undefined
+): void {
+  const { usageLedger } = loadConfig();
+  if (!usageLedger) {
+    logger.warn("USAGE_LEDGER is disabled - no usage recorded");
+    return;
+  }
+
+  const rows = aggregateUsage(readUsageLedger(usageLedger), groupBy);
+  const report = format === "csv" ? formatUsageCsv(rows, groupBy) : formatUsageTable(rows, groupBy);
+
+  if (output) {
+    writeFileSync(output, report);
+    logger.info(`Report written to ${output}`);
+  } else {
+    process.stdout.write(report);
+  }
+}
+
+// Helper: write the mode result as JSON when --output is given
+// In a dry run it includes every write that would have been sent
+function writeResult(
+  path: string | undefined,
+  config: Config,
+  client: BitbucketProvider,
+  result: ModeResult
+): void {
+  if (!path) return;
+  const writes = client instanceof DryRunProvider ? client.writes : undefined;
+  const output = { mode: config.mode, prId: config.prId, ...result, writes };
+  writeFileSync(path, JSON.stringify(output, null, 2));
+  logger.info(`Result written to ${path}`);
 }
 
 // Run
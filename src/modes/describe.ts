@@ -0,0 +1,155 @@
+/**
+ * Describe Mode
+ * Writes a structured PR description from the diff and commit messages
+ * Only the generated section is replaced on reruns - the author's text is kept
+ */
+
+import type { Config } from "../shared/config";
+import { describeApiError } from "../services/bitbucket-errors";
+import type { BitbucketProvider, PullRequest } from "../services/provider";
+import { runClaude } from "../services/claude";
+import { logger } from "../utils/logger";
+import { getCommitMessages, getHeadSha, getLocalDiff } from "../utils/git";
+import { batchDiff, parseDiff } from "../utils/diff";
+import { filterDiffFiles, loadGitattributesRules } from "../utils/diff-filter";
+import { redact } from "../utils/redact";
+import {
+  MAX_BATCH_TOKENS,
+  BudgetTracker,
+  formatSpend,
+  logClaudeUsage,
+  type DescribeResult,
+} from "../shared";
+import {
+  buildDescribePrompt,
+  formatDescription,
+  mergeDescription,
+  parseDescribeOutput,
+  splitDescription,
+} from "../prompts";
+
+export type { DescribeResult };
+
+/**
+ * Check if describe mode should run
+ */
+export function shouldRunDescribe(config: Config): boolean {
+  if (!config.prId) {
+    logger.info("No PR ID - describe mode skipped");
+    return false;
+  }
+
+  return config.mode === "describe";
+}
+
+/**
+ * Generate the PR description and write it to the PR
+ */
+export async function runDescribeMode(
+  config: Config,
+  client: BitbucketProvider
+): Promise<DescribeResult> {
+  logger.info("Starting describe mode...");
+
+  if (!config.prId) {
+    return { success: false, updated: false, error: "No PR ID" };
+  }
+
+  // 1. Get the current description - without it the author's text can't be kept
+  let pr: PullRequest | null = null;
+  if (config.bitbucketToken) {
+    pr = await client.getPullRequest(config.prId);
+    if (!pr) {
+      const error = describeApiError(client.lastError, "fetch PR details");
+      logger.error(error);
+      return { success: false, updated: false, error };
+    }
+  }
+
+  const diff = getLocalDiff(config.destinationBranch);
+  if (!diff) {
+    logger.warn("No diff found");
+    return { success: true, updated: false, error: "No diff" };
+  }
+
+  // 2. Skip if the generated section already describes HEAD
+  const headSha = getHeadSha();
+  const current = splitDescription(pr?.description ?? "");
+  if (headSha && current.headSha === headSha) {
+    logger.info("The description already covers the head commit - nothing to do");
+    return { success: true, updated: false };
+  }
+
+  // 3. Leave out generated and ignored files, and keep the diff within one call's budget
+  const { files, excluded } = filterDiffFiles(parseDiff(diff), {
+    include: config.includePaths,
+    exclude: config.ignorePaths,
+    useDefaults: config.useDefaultExcludes,
+    ...loadGitattributesRules(config.destinationBranch),
+  });
+  const { batches, skipped } = batchDiff(files, MAX_BATCH_TOKENS, 1);
+  const shown = batches[0];
+
+  const prompt = buildDescribePrompt({
+    title: pr?.title || process.env.BITBUCKET_PR_TITLE || "PR",
+    sourceBranch: pr?.source.branch.name || process.env.BITBUCKET_BRANCH || "",
+    destBranch: pr?.destination.branch.name || config.destinationBranch,
+    commits: getCommitMessages(config.destinationBranch),
+    diff: shown?.diff ?? "",
+    omittedFiles: [...excluded, ...skipped].map((f) => f.path),
+    authorText: current.authorText,
+  });
+
+  // 4. Stay within the run budget (the fallback model is fine for descriptions)
+  const budget = new BudgetTracker(config.budget);
+  const choice = budget.chooseModel(config.model, config.fallbackModel, [prompt]);
+  if (!choice.fits) {
+    const error = `Describing this PR would cost ${formatSpend(choice.estimate)}, over the cost budget`;
+    logger.warn(error);
+    return { success: true, updated: false, error };
+  }
+
+  // 5. Generate with read-only tools
+  const result = await runClaude({ ...config, model: choice.model }, prompt, config.tools.readOnly);
+  if (!result.success) {
+    logger.error("Claude failed:", result.error);
+    return { success: false, updated: false, error: result.error };
+  }
+
+  logClaudeUsage(result.usage);
+
+  const parsed = parseDescribeOutput(result.output);
+  if (!parsed) {
+    logger.error("Could not parse the generated description");
+    return { success: false, updated: false, error: "Could not parse the generated description" };
+  }
+
+  const generated = formatDescription(parsed, headSha);
+
+  // No token - just log the description
+  if (!config.bitbucketToken) {
+    logger.info("Description (no token to update the PR):");
+    console.log(redact(generated));
+    return { success: true, updated: false };
+  }
+
+  // 6. Merge into the description as it is now - the author may have edited it while
+  //    Claude was running - and write it to the PR
+  const latest = await client.getPullRequest(config.prId);
+  if (!latest) {
+    const error = describeApiError(client.lastError, "fetch PR details");
+    logger.error(error);
+    return { success: false, updated: false, error };
+  }
+
+  const description = mergeDescription(latest.description ?? "", generated);
+  const updated = await client.updatePullRequest(config.prId, { description });
+  if (!updated) {
+    const error = describeApiError(client.lastError, "update the PR description");
+    logger.error(error);
+    return { success: false, updated: false, error };
+  }
+
+  logger.success("PR description updated");
+  return { success: true, updated: true };
+}
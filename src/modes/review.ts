@@ -5,12 +5,62 @@
  */
 
 import type { Config } from "../shared/config";
-import type { BitbucketClient, PullRequest } from "../services/bitbucket";
-import { runClaude } from "../services/claude";
+import { describeApiError } from "../services/bitbucket-errors";
+import {
+  MAX_ANNOTATIONS_PER_REPORT,
+  type BitbucketProvider,
+  type BitbucketUser,
+  type BuildStatus,
+  type InsightsAnnotation,
+  type InsightsReport,
+  type PRComment,
+  type PullRequest,
+} from "../services/provider";
+import { runClaude, type ClaudeUsage } from "../services/claude";
 import { logger } from "../utils/logger";
-import { getLocalDiff, getChangedFiles } from "../utils/git";
-import { TOOL_CONFIGS, logClaudeUsage, type ReviewResult } from "../shared";
-import { buildReviewPrompt, formatReviewComment } from "../prompts";
+import {
+  getLocalDiff,
+  getChangedFiles,
+  getHeadSha,
+  getMergeBase,
+  isAncestorOfHead,
+  getDiffSince,
+} from "../utils/git";
+import { parseDiff, getCommentableLines, batchDiff } from "../utils/diff";
+import { filterDiffFiles, loadGitattributesRules } from "../utils/diff-filter";
+import { findDiffSecrets, redact } from "../utils/redact";
+import {
+  SEVERITY_RANK,
+  MAX_BATCH_TOKENS,
+  MAX_REVIEW_BATCHES,
+  INSIGHTS_REPORT_ID,
+  BUILD_STATUS_KEY,
+  logClaudeUsage,
+  addUsage,
+  addSpend,
+  formatSpend,
+  BudgetTracker,
+  type ReviewResult,
+  type ReviewFinding,
+  type ReviewCoverage,
+  type ReviewMetadata,
+  type ReviewDecision,
+  type RequestChangesOn,
+  type Severity,
+} from "../shared";
+import {
+  buildReviewPrompt,
+  parseReviewOutput,
+  formatFindingComment,
+  formatReviewSummary,
+  formatReviewComment,
+  parseReviewMetadata,
+  isReviewComment,
+  parseUsageMarker,
+  sumPrSpend,
+  type ParsedReview,
+  type ReviewCommentOptions,
+} from "../prompts";
 
 export type { ReviewResult };
 
@@ -32,7 +82,7 @@ export function shouldRunReview(config: Config): boolean {
  */
 export async function runReviewMode(
   config: Config,
-  client: BitbucketClient
+  client: BitbucketProvider
 ): Promise<ReviewResult> {
   logger.info("Starting review mode...");
 
@@ -45,7 +95,8 @@ export async function runReviewMode(
   if (config.bitbucketToken) {
     pr = await client.getPullRequest(config.prId);
     if (!pr) {
-      logger.warn("Could not fetch PR details, using environment variables");
+      logger.warn(describeApiError(client.lastError, "fetch PR details"));
+      logger.warn("Using environment variables for PR details");
     }
   }
 
@@ -63,54 +114,809 @@ export async function runReviewMode(
 
   logger.info(`Diff size: ${diff.length} characters`);
 
-  // 3. Build review prompt
+  // 2b. Only review what changed since our last review, when history allows it
+  const botUser = config.bitbucketToken ? await client.getCurrentUser() : null;
+  const botComments = config.bitbucketToken
+    ? await fetchBotComments(client, config.prId, botUser)
+    : [];
+  const previousReview = findReviewComment(botComments, botUser?.uuid);
+  const metadata: ReviewMetadata = {
+    headSha: getHeadSha(),
+    baseSha: getMergeBase(config.destinationBranch),
+  };
+  const previousMetadata = previousReview ? parseReviewMetadata(previousReview.content.raw) : null;
+  const scope = resolveReviewScope(previousMetadata, metadata, diff);
+
+  if (!scope) {
+    logger.info("No new commits since the last review - nothing to do");
+    return { success: true, reviewPosted: false };
+  }
+
+  // 2c. Mark the head commit as being reviewed, so merge checks wait for the result
+  const statusCommit = config.buildStatus && config.bitbucketToken ? metadata.headSha : "";
+  if (statusCommit) {
+    await setReviewStatus(config, client, statusCommit, "INPROGRESS", "Review in progress");
+  }
+
+  // 3. Drop lockfiles, generated and ignored files, then split the rest into
+  //    token-budgeted batches (large PRs get several Claude calls)
+  const scopeFiles = parseDiff(scope.diff);
+  const { files, excluded } = filterDiffFiles(scopeFiles, {
+    include: config.includePaths,
+    exclude: config.ignorePaths,
+    useDefaults: config.useDefaultExcludes,
+    ...loadGitattributesRules(config.destinationBranch),
+  });
+  if (excluded.length > 0) {
+    logger.info(`Excluded ${excluded.length} file(s) from review by filters`);
+  }
+
+  // 3b. Flag credentials the diff adds - prompts mask them, so Claude never sees them
+  const secretFindings: ReviewFinding[] = findDiffSecrets(scopeFiles).map((secret) => ({
+    file: secret.path,
+    line: secret.line,
+    severity: "critical",
+    message: `Possible ${secret.label} added in this change. Treat it as leaked: revoke it and remove it from the branch history.`,
+    suggestion: "Load it from a secret store or environment variable instead",
+  }));
+  if (secretFindings.length > 0) {
+    logger.warn(`The diff adds ${secretFindings.length} possible secret(s)`);
+  }
+
+  const { batches, skipped } = batchDiff(files, MAX_BATCH_TOKENS, MAX_REVIEW_BATCHES);
+  logger.info(`Review batches: ${batches.length} (${skipped.length} skipped)`);
+
   const title = pr?.title || process.env.BITBUCKET_PR_TITLE || "PR";
   const sourceBranch = pr?.source?.branch?.name || process.env.BITBUCKET_BRANCH || "";
   const destBranch = pr?.destination?.branch?.name || config.destinationBranch;
 
-  const prompt = buildReviewPrompt({ title, sourceBranch, destBranch, diff });
+  const prompts = batches.map((batch, index) =>
+    buildReviewPrompt({
+      title,
+      sourceBranch,
+      destBranch,
+      diff: batch.diff,
+      batch: batches.length > 1 ? { index: index + 1, total: batches.length } : undefined,
+      instructions: config.reviewInstructions,
+    })
+  );
+
+  // 3c. Stay within the cost budget: switch to the fallback model if the review
+  //     doesn't fit, and drop batches if even that is too expensive
+  const budget = new BudgetTracker(
+    config.budget,
+    sumPrSpend(botComments.map((c) => c.content.raw))
+  );
+  const choice = budget.chooseModel(config.model, config.fallbackModel, prompts);
+  const model = choice.model;
+  const costNotes: string[] = [];
+  if (choice.downgraded) {
+    logger.warn(
+      `Estimated ${formatSpend(choice.estimate)} - reviewing with ${model} to fit the budget`
+    );
+    costNotes.push(`Reviewed with \`${model}\` instead of \`${config.model}\`.`);
+  }
+  if (!choice.fits) {
+    logger.warn(
+      "The review doesn't fit the cost budget even with the fallback model - reducing scope"
+    );
+  }
+
+  // 4. Review each batch with read-only tools (no editing)
+  const reviews: ParsedReview[] = [];
+  const reviewed = new Set<string>();
+  let rawOutput = "";
+  let lastError: string | undefined;
+  let totalUsage: ClaudeUsage | undefined;
+  let overBudget = 0;
 
-  // 4. Run Claude with read-only tools (no editing)
-  const result = await runClaude(config, prompt, TOOL_CONFIGS.readOnly);
+  for (const [index, batch] of batches.entries()) {
+    const isBatched = batches.length > 1;
+    const prompt = prompts[index]!;
 
-  if (!result.success) {
-    logger.error("Claude review failed:", result.error);
-    return { success: false, reviewPosted: false, error: result.error };
+    if (!budget.fits(model, [prompt])) {
+      logger.warn(`Skipping batch ${index + 1}: over the cost budget`);
+      overBudget += batch.files.length;
+      skipped.push(...batch.files.map((path) => ({ path, reason: "over the cost budget" })));
+      continue;
+    }
+
+    if (isBatched) {
+      logger.info(
+        `Reviewing batch ${index + 1}/${batches.length} (${batch.files.length} files, ~${batch.tokens} tokens)`
+      );
+    }
+
+    const result = await runClaude({ ...config, model }, prompt, config.tools.readOnly);
+    budget.record(result.usage, model);
+
+    if (!result.success) {
+      logger.error("Claude review failed:", result.error);
+      lastError = result.error;
+      skipped.push(...batch.files.map((path) => ({ path, reason: "Claude review failed" })));
+      continue;
+    }
+
+    // Debug logging for Claude output
+    logger.debug(`Claude output length: ${result.output?.length || 0}`);
+    logger.debug(`Claude output preview: ${result.output?.substring(0, 200) || "(empty)"}`);
+
+    // Show full output to console for debugging
+    if (result.output) {
+      console.log("\n=== REVIEW OUTPUT ===");
+      console.log(redact(result.output));
+      console.log("=== END OUTPUT ===\n");
+    } else {
+      logger.warn("Claude returned empty output");
+      skipped.push(...batch.files.map((path) => ({ path, reason: "Claude returned no review" })));
+      continue;
+    }
+
+    // Log usage/cost information
+    logClaudeUsage(result.usage);
+    totalUsage = addUsage(totalUsage, result.usage);
+
+    // Parse structured findings (a single batch falls back to the raw text)
+    const parsed = parseReviewOutput(result.output);
+    if (parsed) {
+      reviews.push(parsed);
+    } else if (!isBatched) {
+      logger.warn("Could not parse structured findings - posting raw review");
+      rawOutput = result.output;
+    } else {
+      logger.warn(`Could not parse structured findings for batch ${index + 1}`);
+      skipped.push(
+        ...batch.files.map((path) => ({ path, reason: "could not parse review output" }))
+      );
+      continue;
+    }
+
+    batch.files.forEach((path) => reviewed.add(path));
   }
 
-  // Debug logging for Claude output
-  logger.debug(`Claude output length: ${result.output?.length || 0}`);
-  logger.debug(`Claude output preview: ${result.output?.substring(0, 200) || "(empty)"}`);
+  if (batches.length > 1) {
+    logger.info("Total usage across batches:");
+    logClaudeUsage(totalUsage);
+  }
 
-  // Show full output to console for debugging
-  if (result.output) {
-    console.log("\n=== REVIEW OUTPUT ===");
-    console.log(result.output);
-    console.log("=== END OUTPUT ===\n");
-  } else {
-    logger.warn("Claude returned empty output");
+  if (overBudget > 0) {
+    costNotes.push(`${overBudget} file(s) were not reviewed (see Coverage).`);
+  }
+
+  if (reviews.length === 0 && !rawOutput && lastError) {
+    if (statusCommit) {
+      await setReviewStatus(config, client, statusCommit, "FAILED", "Review could not run");
+    }
+    return { success: false, reviewPosted: false, error: lastError };
   }
 
-  // Log usage/cost information
-  logClaudeUsage(result.usage);
+  const coverage: ReviewCoverage = { reviewed: [...reviewed], skipped, excluded };
+  const merged = mergeReviews(reviews);
+  const review = applySeverityThreshold(
+    { ...merged, findings: [...secretFindings, ...merged.findings] },
+    config.severityThreshold
+  );
 
-  // 5. Post review comment
-  if (result.output && config.bitbucketToken) {
-    const comment = formatReviewComment(result.output);
-    const posted = await client.postComment(config.prId, comment);
+  // Open findings of the last review are re-checked by reviewing the full diff again
+  // (see resolveReviewScope) - they only stay open when this run couldn't re-check them
+  const complete = !lastError && skipped.length === 0 && reviewed.size > 0;
+  const rechecked = !scope.sinceSha && complete && !rawOutput;
+  const carried = rechecked ? undefined : previousMetadata?.openSeverity;
+  const openSeverity = mostSevere([...review.findings.map((f) => f.severity), carried]);
+  const commentOptions: ReviewCommentOptions = {
+    coverage,
+    metadata: metadata.headSha && metadata.baseSha ? { ...metadata, openSeverity } : undefined,
+    sinceSha: scope.sinceSha,
+    carriedSeverity: carried,
+    costNote:
+      costNotes.length > 0
+        ? `${costNotes.join(" ")} The full review would exceed the cost budget.`
+        : undefined,
+    usage: addSpend(parseUsageMarker(previousReview?.content.raw ?? ""), budget.spent),
+  };
 
-    if (posted) {
-      logger.success("Review posted to PR");
-      return { success: true, reviewPosted: true };
+  // 5. Publish the findings as a Code Insights report (optional)
+  let reportPublished: boolean | undefined;
+  if (config.codeInsights && config.bitbucketToken) {
+    if (rawOutput || !metadata.headSha) {
+      logger.warn("Code Insights: no structured findings for the head commit - report skipped");
     } else {
-      logger.error("Failed to post review comment");
-      return { success: true, reviewPosted: false, error: "Failed to post comment" };
+      reportPublished = await publishInsightsReport(
+        client,
+        metadata.headSha,
+        review,
+        coverage,
+        carried
+      );
     }
   }
 
   // No token - just log the review
-  logger.info("Review output (no token to post):");
-  console.log(result.output);
+  if (!config.bitbucketToken) {
+    logger.info("Review output (no token to post):");
+    console.log(
+      redact(rawOutput || formatReviewSummary(review.summary, [], review.findings, commentOptions))
+    );
+    return { success: true, reviewPosted: false };
+  }
+
+  // 6. Post review
+  const result = rawOutput
+    ? await postRawReview(config, client, rawOutput, commentOptions, previousReview)
+    : await postStructuredReview(config, client, review, diff, commentOptions, previousReview);
+
+  // 7. Approve or request changes, per the configured policy (needs structured findings)
+  const decision = rawOutput
+    ? undefined
+    : await applyApprovalPolicy(config, client, pr, botUser, review.findings, {
+        complete,
+        carried,
+      });
+
+  // 8. Report the outcome as a build status - critical findings or an incomplete review fail it
+  if (statusCommit) {
+    const status = decideReviewStatus(review.findings, coverage, carried, !!rawOutput);
+    await setReviewStatus(
+      config,
+      client,
+      statusCommit,
+      status.state,
+      status.description,
+      result.commentId
+    );
+  }
+
+  return { ...result, reportPublished, decision };
+}
+
+/**
+ * Decide what to review: the interdiff since our last review, or the full diff
+ * Returns null when HEAD was already reviewed
+ */
+function resolveReviewScope(
+  previous: ReviewMetadata | null,
+  current: ReviewMetadata,
+  fullDiff: string
+): { diff: string; sinceSha?: string } | null {
+  if (!previous || !current.headSha) {
+    logger.info("No previous review found - running full review");
+    return { diff: fullDiff };
+  }
+
+  if (previous.headSha === current.headSha) {
+    return null;
+  }
+
+  // The interdiff can't show whether earlier findings were fixed - re-check them
+  if (previous.openSeverity) {
+    logger.info("The last review left findings open - running full review to re-check them");
+    return { diff: fullDiff };
+  }
+
+  // A changed merge base means a rebase or a merge from the destination branch -
+  // the interdiff would include unrelated changes, so review everything again
+  if (previous.baseSha !== current.baseSha || !isAncestorOfHead(previous.headSha)) {
+    logger.info("History rewritten since last review - running full review");
+    return { diff: fullDiff };
+  }
+
+  const interdiff = getDiffSince(previous.headSha);
+  if (!interdiff) {
+    return null;
+  }
+
+  logger.info(`Incremental review of changes since ${previous.headSha}`);
+  return { diff: interdiff, sinceSha: previous.headSha };
+}
+
+/**
+ * Fetch the comments the bot posted on the PR (previous reviews and replies)
+ */
+async function fetchBotComments(
+  client: BitbucketProvider,
+  prId: number,
+  botUser: BitbucketUser | null
+): Promise<PRComment[]> {
+  const comments = await client.getComments(prId);
+  if (client.lastError) {
+    logger.warn(describeApiError(client.lastError, "fetch previous review comments"));
+  }
+
+  if (!botUser) {
+    logger.debug("Could not identify bot user - matching review comments by marker only");
+    return comments;
+  }
+
+  return comments.filter((c) => c.user.uuid === botUser.uuid);
+}
+
+/**
+ * Find the most recent review comment, optionally restricted to one author
+ */
+export function findReviewComment(comments: PRComment[], authorUuid?: string): PRComment | null {
+  const sorted = [...comments].sort(
+    (a, b) => new Date(b.created_on).getTime() - new Date(a.created_on).getTime()
+  );
+
+  return (
+    sorted.find(
+      (c) => isReviewComment(c.content.raw) && (!authorUuid || c.user.uuid === authorUuid)
+    ) ?? null
+  );
+}
+
+/**
+ * Publish the review summary according to the configured comment mode
+ */
+async function publishReviewComment(
+  config: Config,
+  client: BitbucketProvider,
+  content: string,
+  previous: PRComment | null
+): Promise<PRComment | null> {
+  const prId = config.prId!;
+
+  if (previous && config.reviewCommentMode === "edit") {
+    const updated = await client.updateComment(prId, previous.id, content);
+    if (updated) {
+      logger.info(`Updated review comment #${previous.id}`);
+      return updated;
+    }
+    logger.warn(describeApiError(client.lastError, `update review comment #${previous.id}`));
+    logger.warn("Posting a new review comment instead");
+  }
+
+  if (previous && config.reviewCommentMode === "replace") {
+    if (await client.deleteComment(prId, previous.id)) {
+      logger.info(`Deleted previous review comment #${previous.id}`);
+    } else {
+      logger.warn(describeApiError(client.lastError, `delete review comment #${previous.id}`));
+    }
+  }
+
+  return client.postComment(prId, content);
+}
+
+/**
+ * Drop findings less severe than the configured threshold
+ */
+export function applySeverityThreshold(review: ParsedReview, threshold: Severity): ParsedReview {
+  const findings = review.findings.filter(
+    (f) => SEVERITY_RANK[f.severity] <= SEVERITY_RANK[threshold]
+  );
+
+  if (findings.length < review.findings.length) {
+    logger.info(
+      `Dropped ${review.findings.length - findings.length} finding(s) below ${threshold} severity`
+    );
+  }
+
+  return { ...review, findings };
+}
+
+/**
+ * Merge per-batch reviews into one, de-duplicating findings
+ * (same file, line and message - the highest severity wins)
+ */
+export function mergeReviews(reviews: ParsedReview[]): ParsedReview {
+  const byKey = new Map<string, ReviewFinding>();
+
+  for (const finding of reviews.flatMap((r) => r.findings)) {
+    const key = `${finding.file}:${finding.line}:${finding.message.toLowerCase()}`;
+    const existing = byKey.get(key);
+    if (!existing || SEVERITY_RANK[finding.severity] < SEVERITY_RANK[existing.severity]) {
+      byKey.set(key, finding);
+    }
+  }
+
+  // Batches with nothing to say just report "LGTM" - only keep that if every batch did
+  const summaries = [...new Set(reviews.map((r) => r.summary).filter(Boolean))];
+  const meaningful = summaries.filter((s) => s.toUpperCase() !== "LGTM");
+  const summary =
+    meaningful.length > 0
+      ? meaningful.join("\n\n")
+      : summaries.length > 0 && byKey.size === 0
+        ? "LGTM"
+        : "";
+
+  return { summary, findings: [...byKey.values()] };
+}
+
+/**
+ * Decide the build status for a finished review
+ * Passes only when every file that should have been reviewed was, and nothing critical
+ * is open - found in this run, or found earlier and not re-checked (`carried`)
+ */
+export function decideReviewStatus(
+  findings: ReviewFinding[],
+  coverage: ReviewCoverage,
+  carried: Severity | undefined,
+  raw: boolean
+): { state: BuildStatus["state"]; description: string } {
+  const critical = findings.filter((f) => f.severity === "critical").length;
+
+  if (critical > 0) {
+    return { state: "FAILED", description: `${critical} critical finding(s)` };
+  }
+  if (carried === "critical") {
+    return {
+      state: "FAILED",
+      description: "Critical finding(s) from an earlier review not re-checked",
+    };
+  }
+  if (coverage.reviewed.length === 0) {
+    return { state: "FAILED", description: "No files were reviewed" };
+  }
+  if (coverage.skipped.length > 0) {
+    return {
+      state: "FAILED",
+      description: `Review incomplete (${coverage.skipped.length} file(s) not reviewed)`,
+    };
+  }
 
-  return { success: true, reviewPosted: false };
+  return {
+    state: "SUCCESSFUL",
+    description: raw ? "Review posted" : `Review passed (${findings.length} finding(s))`,
+  };
+}
+
+/**
+ * Set the review's build status on a commit, linking to the PR (or the review comment)
+ */
+async function setReviewStatus(
+  config: Config,
+  client: BitbucketProvider,
+  commitSha: string,
+  state: BuildStatus["state"],
+  description: string,
+  commentId?: number
+): Promise<void> {
+  const updated = await client.setBuildStatus(commitSha, {
+    key: BUILD_STATUS_KEY,
+    state,
+    name: "Claude Code Review",
+    url: client.pullRequestUrl(config.prId!, commentId),
+    description,
+  });
+
+  if (updated) {
+    logger.debug(`Build status ${state}: ${description}`);
+  } else {
+    logger.warn(describeApiError(client.lastError, `set the ${state} build status`));
+  }
+}
+
+/**
+ * Post Claude's output as-is when it couldn't be parsed into findings
+ */
+async function postRawReview(
+  config: Config,
+  client: BitbucketProvider,
+  output: string,
+  options: ReviewCommentOptions,
+  previous: PRComment | null
+): Promise<ReviewResult> {
+  const comment = formatReviewComment(output, options);
+  const posted = await publishReviewComment(config, client, comment, previous);
+
+  if (!posted) {
+    const error = describeApiError(client.lastError, "post the review comment");
+    logger.error(error);
+    return { success: true, reviewPosted: false, error };
+  }
+
+  logger.success("Review posted to PR");
+  return { success: true, reviewPosted: true, commentId: posted.id };
+}
+
+/**
+ * Post each placeable finding inline, then a summary comment with the rest
+ */
+async function postStructuredReview(
+  config: Config,
+  client: BitbucketProvider,
+  review: ParsedReview,
+  diff: string,
+  options: ReviewCommentOptions,
+  previous: PRComment | null
+): Promise<ReviewResult> {
+  const prId = config.prId!;
+  const { inline, unplaced } = placeFindings(review.findings, diff);
+  logger.info(`Findings: ${inline.length} inline, ${unplaced.length} summary-only`);
+
+  const posted: ReviewFinding[] = [];
+  for (const finding of inline) {
+    const comment = await client.postInlineComment(
+      prId,
+      formatFindingComment(finding),
+      finding.file,
+      finding.line
+    );
+
+    if (comment) {
+      posted.push(finding);
+    } else {
+      // Keep the finding - it goes into the summary instead
+      logger.warn(
+        describeApiError(client.lastError, `post inline comment on ${finding.file}:${finding.line}`)
+      );
+      unplaced.push(finding);
+    }
+  }
+
+  const summary = formatReviewSummary(review.summary, posted, unplaced, options);
+  const summaryPosted = await publishReviewComment(config, client, summary, previous);
+
+  if (!summaryPosted) {
+    const error = describeApiError(client.lastError, "post the review summary");
+    logger.error(error);
+    return {
+      success: true,
+      reviewPosted: posted.length > 0,
+      inlineComments: posted.length,
+      error,
+    };
+  }
+
+  logger.success(`Review posted to PR (${posted.length} inline comments)`);
+  return {
+    success: true,
+    reviewPosted: true,
+    inlineComments: posted.length,
+    commentId: summaryPosted.id,
+  };
+}
+
+/**
+ * Split findings into those that land on a line in the diff (posted inline)
+ * and those that don't (listed in the summary comment)
+ */
+export function placeFindings(
+  findings: ReviewFinding[],
+  diff: string
+): { inline: ReviewFinding[]; unplaced: ReviewFinding[] } {
+  const commentable = new Map<string, Set<number>>();
+  for (const file of parseDiff(diff)) {
+    if (!file.isDeleted && !file.isBinary) {
+      commentable.set(file.path, getCommentableLines(file));
+    }
+  }
+
+  const inline: ReviewFinding[] = [];
+  const unplaced: ReviewFinding[] = [];
+
+  for (const finding of findings) {
+    const path = finding.file.replace(/^\.\//, "");
+    if (commentable.get(path)?.has(finding.line)) {
+      inline.push({ ...finding, file: path });
+    } else {
+      unplaced.push(finding);
+    }
+  }
+
+  return { inline, unplaced };
+}
+
+/** Code Insights severity for each finding severity */
+const INSIGHTS_SEVERITY = {
+  critical: "CRITICAL",
+  important: "MEDIUM",
+  minor: "LOW",
+} as const;
+
+/**
+ * Build a Code Insights report and annotations from the review findings
+ * The report passes or fails by the same rule as the build status
+ */
+export function buildInsightsReport(
+  review: ParsedReview,
+  coverage: ReviewCoverage,
+  carried?: Severity
+): { report: InsightsReport; annotations: InsightsAnnotation[] } {
+  const count = (severity: Severity) =>
+    review.findings.filter((f) => f.severity === severity).length;
+  const critical = count("critical");
+
+  const report: InsightsReport = {
+    title: "Claude Code Review",
+    details: truncate(review.summary || `${review.findings.length} finding(s)`, 2_000),
+    report_type: "BUG",
+    reporter: "Claude",
+    result:
+      decideReviewStatus(review.findings, coverage, carried, false).state === "FAILED"
+        ? "FAILED"
+        : "PASSED",
+    data: [
+      { title: "Critical", type: "NUMBER", value: critical },
+      { title: "Important", type: "NUMBER", value: count("important") },
+      { title: "Minor", type: "NUMBER", value: count("minor") },
+      { title: "Files reviewed", type: "NUMBER", value: coverage.reviewed.length },
+    ],
+  };
+
+  // Most severe first, so the cap drops minor findings
+  const findings = [...review.findings]
+    .sort((a, b) => SEVERITY_RANK[a.severity] - SEVERITY_RANK[b.severity])
+    .slice(0, MAX_ANNOTATIONS_PER_REPORT);
+
+  const annotations = findings.map(
+    (finding, index): InsightsAnnotation => ({
+      external_id: `claude-review-${index + 1}`,
+      annotation_type: finding.severity === "minor" ? "CODE_SMELL" : "BUG",
+      summary: truncate(finding.message, 450),
+      details: finding.suggestion
+        ? truncate(`Suggestion: ${finding.suggestion}`, 2_000)
+        : undefined,
+      path: finding.file.replace(/^\.\//, ""),
+      line: finding.line > 0 ? finding.line : undefined,
+      severity: INSIGHTS_SEVERITY[finding.severity],
+    })
+  );
+
+  return { report, annotations };
+}
+
+/**
+ * Publish the findings as a Code Insights report on the head commit
+ */
+async function publishInsightsReport(
+  client: BitbucketProvider,
+  headSha: string,
+  review: ParsedReview,
+  coverage: ReviewCoverage,
+  carried: Severity | undefined
+): Promise<boolean> {
+  const { report, annotations } = buildInsightsReport(review, coverage, carried);
+
+  if (annotations.length < review.findings.length) {
+    logger.warn(
+      `Code Insights: only the first ${annotations.length} of ${review.findings.length} findings are annotated`
+    );
+  }
+
+  if (!(await client.createReport(headSha, INSIGHTS_REPORT_ID, report))) {
+    logger.warn(describeApiError(client.lastError, "create the Code Insights report"));
+    return false;
+  }
+
+  if (!(await client.addAnnotations(headSha, INSIGHTS_REPORT_ID, annotations))) {
+    logger.warn(describeApiError(client.lastError, "upload Code Insights annotations"));
+    return false;
+  }
+
+  logger.success(
+    `Code Insights report published (${report.result}, ${annotations.length} annotations)`
+  );
+  return true;
+}
+
+// Helper: the most severe of some severities (undefined when there are none)
+function mostSevere(severities: Array<Severity | undefined>): Severity | undefined {
+  return severities
+    .filter((s): s is Severity => s !== undefined)
+    .sort((a, b) => SEVERITY_RANK[a] - SEVERITY_RANK[b])[0];
+}
+
+// Helper: cut text to the API's field length limit
+function truncate(text: string, max: number): string {
+  return text.length > max ? `${text.substring(0, max - 1)}…` : text;
+}
+
+/** Client calls that move the bot's approval state */
+type DecisionStep = "approve" | "unapprove" | "requestChanges" | "removeChangeRequest";
+
+/** Approval state after each step, and what it's called in error messages */
+const DECISION_STEPS: Record<DecisionStep, { result: ReviewDecision; action: string }> = {
+  approve: { result: "approve", action: "approve the PR" },
+  unapprove: { result: "none", action: "withdraw the approval" },
+  requestChanges: { result: "request_changes", action: "request changes" },
+  removeChangeRequest: { result: "none", action: "withdraw the change request" },
+};
+
+/** What the approval decision is based on besides the run's own findings */
+export interface ReviewState {
+  /** At least one file reviewed, and no failed batches or skipped files */
+  complete: boolean;
+  /** The bot's approval state before this run */
+  current: ReviewDecision;
+  /** Most severe finding carried over from earlier reviews */
+  carried?: Severity;
+}
+
+/**
+ * Decide the approval state the review's findings call for
+ * Only a complete review can approve, and an incomplete one keeps the current state
+ * rather than withdrawing it
+ */
+export function decideReviewOutcome(
+  findings: ReviewFinding[],
+  state: ReviewState,
+  policy: { requestChangesOn: RequestChangesOn; approveWhenClean: boolean }
+): ReviewDecision {
+  const { requestChangesOn, approveWhenClean } = policy;
+  const severities = [
+    ...findings.map((f) => f.severity),
+    ...(state.carried ? [state.carried] : []),
+  ];
+
+  if (
+    requestChangesOn !== "never" &&
+    severities.some((severity) => SEVERITY_RANK[severity] <= SEVERITY_RANK[requestChangesOn])
+  ) {
+    return "request_changes";
+  }
+
+  if (!state.complete) {
+    return state.current;
+  }
+
+  if (approveWhenClean && severities.length === 0) {
+    return "approve";
+  }
+
+  return "none";
+}
+
+/**
+ * Client calls that move the bot from its current approval state to the new one,
+ * withdrawing the earlier decision first
+ */
+export function planDecisionSteps(
+  current: ReviewDecision,
+  decision: ReviewDecision
+): DecisionStep[] {
+  if (current === decision) return [];
+
+  const steps: DecisionStep[] = [];
+  if (current === "approve") steps.push("unapprove");
+  if (current === "request_changes") steps.push("removeChangeRequest");
+  if (decision === "approve") steps.push("approve");
+  if (decision === "request_changes") steps.push("requestChanges");
+  return steps;
+}
+
+/**
+ * Apply the approval policy to the PR
+ * Returns the resulting approval state, or undefined when no policy is configured
+ */
+async function applyApprovalPolicy(
+  config: Config,
+  client: BitbucketProvider,
+  pr: PullRequest | null,
+  botUser: BitbucketUser | null,
+  findings: ReviewFinding[],
+  review: Omit<ReviewState, "current">
+): Promise<ReviewDecision | undefined> {
+  if (config.requestChangesOn === "never" && !config.approveWhenClean) {
+    return undefined;
+  }
+
+  const participant = botUser
+    ? pr?.participants?.find((p) => p.user.uuid === botUser.uuid)
+    : undefined;
+  const current: ReviewDecision =
+    participant?.state === "approved"
+      ? "approve"
+      : participant?.state === "changes_requested"
+        ? "request_changes"
+        : "none";
+  if (!botUser) {
+    logger.debug("Could not identify bot user - assuming no earlier approval decision");
+  }
+
+  const decision = decideReviewOutcome(findings, { ...review, current }, config);
+
+  let state = current;
+  for (const step of planDecisionSteps(current, decision)) {
+    if (!(await client[step](config.prId!))) {
+      logger.warn(describeApiError(client.lastError, DECISION_STEPS[step].action));
+      break;
+    }
+    state = DECISION_STEPS[step].result;
+  }
+
+  if (state !== current) {
+    logger.info(`Approval state: ${current} -> ${state}`);
+  }
+  return state;
 }
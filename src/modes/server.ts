@@ -0,0 +1,155 @@
+/**
+ * Webhook server mode
+ * Receives Bitbucket Cloud webhooks, checks out the PR and runs review or tag mode for it
+ */
+
+import type { Server } from "bun";
+import { JobQueue } from "../services/job-queue";
+import { parseWebhook, verifySignature, type WebhookJob } from "../services/webhook";
+import type { Config } from "../shared/config";
+import { EXIT_CODES } from "../shared/constants";
+import { logger } from "../utils/logger";
+import { checkoutPullRequest, gitAuthEnv } from "../utils/workspace";
+
+/** Path Bitbucket posts webhooks to */
+export const WEBHOOK_PATH = "/webhook";
+
+/**
+ * Build the HTTP handler
+ * `dispatch` receives accepted jobs; the response is sent without waiting for them
+ */
+export function createWebhookHandler(
+  config: Config,
+  dispatch: (job: WebhookJob) => void
+): (request: Request) => Promise<Response> {
+  return async (request) => {
+    const url = new URL(request.url);
+
+    if (request.method === "GET" && url.pathname === "/health") {
+      return new Response("ok");
+    }
+
+    if (request.method !== "POST" || url.pathname !== WEBHOOK_PATH) {
+      return new Response("Not found", { status: 404 });
+    }
+
+    const body = await request.text();
+    if (!verifySignature(config.webhookSecret, body, request.headers.get("X-Hub-Signature"))) {
+      logger.warn("Rejected webhook with a missing or invalid signature");
+      return Response.json({ error: "invalid signature" }, { status: 401 });
+    }
+
+    let payload: unknown;
+    try {
+      payload = JSON.parse(body);
+    } catch {
+      return Response.json({ error: "body is not valid JSON" }, { status: 400 });
+    }
+
+    const eventKey = request.headers.get("X-Event-Key") ?? "";
+    const action = parseWebhook(eventKey, payload);
+
+    if ("ignored" in action) {
+      logger.debug(`Ignoring ${eventKey}: ${action.ignored}`);
+      return Response.json({ ignored: action.ignored });
+    }
+
+    const { job } = action;
+    logger.info(`${eventKey}: ${job.mode} ${job.workspace}/${job.repoSlug} PR #${job.prId}`);
+    dispatch(job);
+    return Response.json({ accepted: true, mode: job.mode, prId: job.prId }, { status: 202 });
+  };
+}
+
+/** Options for running a webhook job */
+export interface JobRunOptions {
+  /** Command-line flags to pass on (model, dry run) */
+  overrides?: Partial<Config>;
+  /** Aborting kills the run */
+  signal?: AbortSignal;
+  /** CLI entry script (default: the one this process runs) */
+  entry?: string;
+}
+
+/**
+ * Check out the job's PR and run its mode in a child process
+ * Each run gets its own process and clone, the same as a pipeline run, so runs for
+ * different PRs can't interfere. The repository's config file applies as usual.
+ */
+export async function runWebhookJob(
+  config: Config,
+  job: WebhookJob,
+  options: JobRunOptions = {}
+): Promise<boolean> {
+  const { overrides = {}, signal, entry = Bun.main } = options;
+  const label = `${job.mode} ${job.workspace}/${job.repoSlug} PR #${job.prId}`;
+
+  const checkout = await checkoutPullRequest(config.workDir, job, config.bitbucketToken);
+  if (!checkout.success) {
+    logger.error(`${label}: could not check out the PR`);
+    return false;
+  }
+  if (signal?.aborted) return false;
+
+  const args = [job.mode, "--pr", String(job.prId), "--repo", `${job.workspace}/${job.repoSlug}`];
+  if (overrides.model) args.push("--model", overrides.model);
+  if (overrides.dryRun) args.push("--dry-run");
+
+  const child = Bun.spawn([process.execPath, entry, ...args], {
+    cwd: checkout.dir,
+    env: {
+      ...process.env,
+      BITBUCKET_CLONE_DIR: checkout.dir,
+      BITBUCKET_BRANCH: job.sourceBranch,
+      BITBUCKET_PR_DESTINATION_BRANCH: job.destinationBranch,
+      // Every run records its usage in the server's ledger
+      USAGE_LEDGER: config.usageLedger,
+      // Credentials for the run's git fetches and pushes (never saved in the clone)
+      ...gitAuthEnv(config.bitbucketToken),
+    },
+    stdout: "inherit",
+    stderr: "inherit",
+  });
+
+  const kill = () => child.kill();
+  signal?.addEventListener("abort", kill);
+  const exitCode = await child.exited;
+  signal?.removeEventListener("abort", kill);
+
+  if (signal?.aborted) {
+    logger.info(`${label} cancelled`);
+    return false;
+  }
+  if (exitCode !== EXIT_CODES.success) {
+    logger.error(`${label} failed (exit code ${exitCode})`);
+    return false;
+  }
+
+  logger.success(`${label} done`);
+  return true;
+}
+
+/**
+ * Start the webhook server
+ * Jobs go through a queue: limited concurrency, one job per PR at a time, and only the
+ * latest push of a PR gets reviewed. Unfinished jobs from the job log are resumed.
+ */
+export function startWebhookServer(
+  config: Config,
+  overrides: Partial<Config> = {}
+): Server<undefined> {
+  const queue = new JobQueue({
+    concurrency: config.maxConcurrentJobs,
+    logPath: config.jobLog,
+    run: (job, signal) => runWebhookJob(config, job, { overrides, signal }),
+  });
+  queue.restore();
+
+  const server = Bun.serve({
+    port: config.webhookPort,
+    fetch: createWebhookHandler(config, (job) => queue.enqueue(job)),
+  });
+
+  logger.success(`Listening for webhooks on http://localhost:${server.port}${WEBHOOK_PATH}`);
+  return server;
+}
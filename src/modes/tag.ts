@@ -5,17 +5,48 @@
  */
 
 import type { Config } from "../shared/config";
-import type { BitbucketClient, PRComment } from "../services/bitbucket";
+import { describeApiError } from "../services/bitbucket-errors";
+import type { BitbucketProvider, PRComment } from "../services/provider";
 import { runClaude } from "../services/claude";
 import { logger } from "../utils/logger";
+import { parseDiff, findHunkForLine } from "../utils/diff";
+import { redact } from "../utils/redact";
+import {
+  getFileDiff,
+  getLocalDiff,
+  getHeadSha,
+  getUncommittedPaths,
+  commitPaths,
+  getDiffStat,
+  pushHead,
+} from "../utils/git";
 import {
-  TOOL_CONFIGS,
   ACTIONABLE_PATTERNS,
   INFORMATIONAL_PATTERNS,
+  COMMIT_AUTHOR,
+  MAX_BATCH_TOKENS,
+  MAX_THREAD_TOKENS,
+  TAG_COMMANDS,
+  CHARS_PER_TOKEN,
   logClaudeUsage,
+  formatSpend,
+  BudgetTracker,
   type TagResult,
+  type TagCommand,
+  type TagCommandName,
+  type CodeChangeOutcome,
 } from "../shared";
-import { buildTagPrompt } from "../prompts";
+import {
+  buildTagPrompt,
+  buildCommandPrompt,
+  formatCommandHelp,
+  buildCommitMessage,
+  formatChangesReport,
+  formatReply,
+  isBotReply,
+  isReviewComment,
+  sumPrSpend,
+} from "../prompts";
 
 export type { TagResult };
 
@@ -34,7 +65,7 @@ export function shouldRunTag(config: Config): boolean {
 /**
  * Run tag mode - find @claude mentions and respond
  */
-export async function runTagMode(config: Config, client: BitbucketClient): Promise<TagResult> {
+export async function runTagMode(config: Config, client: BitbucketProvider): Promise<TagResult> {
   logger.info("Starting tag mode...");
 
   if (!config.prId) {
@@ -45,22 +76,86 @@ export async function runTagMode(config: Config, client: BitbucketClient): Promi
   logger.info("Fetching PR comments...");
   const comments = await client.getComments(config.prId);
 
+  if (client.lastError) {
+    const error = describeApiError(client.lastError, "fetch PR comments");
+    logger.error(error);
+    return { success: false, responded: false, error };
+  }
+
   if (!comments.length) {
     logger.info("No comments found");
     return { success: true, responded: false };
   }
 
   // 2. Find comments with trigger phrase that haven't been responded to
-  const triggerComment = findTriggerComment(comments, config.triggerPhrase);
+  const botUser = config.bitbucketToken ? await client.getCurrentUser() : null;
+  if (!botUser) {
+    logger.debug("Could not identify bot user - recognizing replies by marker only");
+  }
+
+  const triggers = findOutstandingTriggers(comments, config.triggerPhrase, botUser?.uuid);
 
-  if (!triggerComment) {
+  if (!triggers.length) {
     logger.info(`No unresponded ${config.triggerPhrase} mentions found`);
     return { success: true, responded: false };
   }
 
-  logger.info(`Found trigger comment #${triggerComment.id}`);
+  logger.info(`Found ${triggers.length} unanswered trigger comment(s)`);
+
+  // 3. Answer them oldest first - later requests may build on earlier changes
+  const result: TagResult = { success: true, responded: false, respondedTo: [] };
+  const errors: string[] = [];
+  const budget = new BudgetTracker(
+    config.budget,
+    sumPrSpend(comments.filter((c) => isBotComment(c, botUser?.uuid)).map((c) => c.content.raw))
+  );
+
+  for (const trigger of triggers) {
+    const outcome = await respondToTrigger(
+      config,
+      client,
+      trigger,
+      comments,
+      budget,
+      botUser?.uuid
+    );
+
+    if (outcome.responded) {
+      result.responded = true;
+      result.commentId = outcome.commentId;
+      result.respondedTo?.push(trigger.id);
+    }
+    if (outcome.commitSha) {
+      result.commitSha = outcome.commitSha;
+    }
+    if (!outcome.success) {
+      errors.push(`#${trigger.id}: ${outcome.error}`);
+    }
+  }
 
-  // 3. Extract the user's request
+  if (errors.length > 0) {
+    result.success = false;
+    result.error = errors.join("; ");
+  }
+
+  return result;
+}
+
+/**
+ * Respond to a single trigger comment
+ */
+async function respondToTrigger(
+  config: Config,
+  client: BitbucketProvider,
+  triggerComment: PRComment,
+  comments: PRComment[],
+  budget: BudgetTracker,
+  botUuid?: string
+): Promise<TagResult> {
+  const prId = config.prId!;
+  logger.info(`Responding to trigger comment #${triggerComment.id}`);
+
+  // 1. Extract the user's request
   const userRequest = extractRequest(triggerComment.content.raw, config.triggerPhrase);
 
   if (!userRequest) {
@@ -70,36 +165,91 @@ export async function runTagMode(config: Config, client: BitbucketClient): Promi
 
   logger.info(`User request: "${userRequest.substring(0, 100)}..."`);
 
-  // 4. Determine if actionable or informational
-  const isActionable = classifyRequest(userRequest);
-  logger.info(`Request type: ${isActionable ? "actionable" : "informational"}`);
+  // 2. Explicit slash commands decide the access level; free-form text is classified
+  const command = parseTagCommand(userRequest);
+
+  if (command && "error" in command) {
+    logger.info(`Unknown command: ${command.error}`);
+    return replyWithoutClaude(
+      config,
+      client,
+      triggerComment,
+      `${command.error}\n\n${formatCommandHelp(config.triggerPhrase)}`
+    );
+  }
+  if (command?.name === "help") {
+    return replyWithoutClaude(
+      config,
+      client,
+      triggerComment,
+      formatCommandHelp(config.triggerPhrase)
+    );
+  }
 
-  // 5. Build prompt based on request type
-  const sourceBranch = process.env.BITBUCKET_BRANCH || "unknown";
-  const prompt = buildTagPrompt(
-    {
-      prId: config.prId,
-      sourceBranch,
-      destBranch: config.destinationBranch,
-      request: userRequest,
-      inlineContext: triggerComment.inline,
-    },
-    isActionable
+  const isActionable = command
+    ? TAG_COMMANDS[command.name].access === "fullAccess"
+    : classifyRequest(userRequest);
+  logger.info(
+    `Request type: ${command ? `/${command.name}` : isActionable ? "actionable" : "informational"}`
   );
 
-  // 6. Run Claude with appropriate tools
-  const toolConfig = isActionable ? TOOL_CONFIGS.fullAccess : TOOL_CONFIGS.readOnly;
-  const result = await runClaude(config, prompt, toolConfig);
+  // 3. Build prompt based on the command or request type
+  const sourceBranch =
+    process.env.BITBUCKET_BRANCH ||
+    (config.bitbucketToken && (await client.getPullRequest(prId))?.source.branch.name) ||
+    "unknown";
+  const conversation = getThreadHistory(comments, triggerComment).map((c) => ({
+    author: c.user?.display_name || "Unknown",
+    isBot: isBotComment(c, botUuid),
+    content: stripMarkers(c.content.raw),
+  }));
+  const inline = getThreadRoot(comments, triggerComment).inline ?? triggerComment.inline;
+
+  const params = {
+    prId,
+    sourceBranch,
+    destBranch: config.destinationBranch,
+    request: userRequest,
+    inlineContext: inline,
+    diffHunk: inline ? getInlineHunk(config.destinationBranch, inline) : undefined,
+    conversation,
+  };
+  const prompt = command
+    ? buildCommandPrompt({ ...params, diff: getCommandDiff(config, command) }, command)
+    : buildTagPrompt(params, isActionable);
+
+  // 4. Check the cost budget - fall back to the cheaper model, or decline if even that won't fit
+  const choice = budget.chooseModel(config.model, config.fallbackModel, [prompt]);
+  if (!choice.fits) {
+    logger.warn(`Estimated ${formatSpend(choice.estimate)} - over the cost budget`);
+    return replyWithoutClaude(
+      config,
+      client,
+      triggerComment,
+      "💰 Sorry, answering this would exceed the cost budget, so I skipped it. " +
+        `Ask a maintainer to raise the budget, then mention ${config.triggerPhrase} again.`
+    );
+  }
+  if (choice.downgraded) {
+    logger.warn(`Answering with ${choice.model} to stay within the cost budget`);
+  }
+
+  // 5. Run Claude with appropriate tools
+  //    (remember what was already uncommitted, so only Claude's changes get committed)
+  const before = { head: getHeadSha(), uncommitted: new Set(getUncommittedPaths()) };
+  const toolConfig = isActionable ? config.tools.fullAccess : config.tools.readOnly;
+  const result = await runClaude({ ...config, model: choice.model }, prompt, toolConfig);
+  const spend = budget.record(result.usage, choice.model);
 
   if (!result.success) {
     logger.error("Claude failed:", result.error);
 
-    // Try to post error as reply
+    // Try to post error as reply (this also marks the comment as answered)
     if (config.bitbucketToken) {
       await client.replyToComment(
-        config.prId,
+        prId,
         triggerComment.id,
-        `Sorry, I encountered an error: ${result.error}`
+        formatReply(`Sorry, I encountered an error: ${result.error}`, spend)
       );
     }
 
@@ -109,50 +259,267 @@ export async function runTagMode(config: Config, client: BitbucketClient): Promi
   // Log usage/cost information
   logClaudeUsage(result.usage);
 
+  // 6. Commit and push any code changes made for actionable requests
+  let response = result.output;
+  let commitSha: string | undefined;
+
+  if (isActionable) {
+    const outcome = commitAndPushChanges(
+      config,
+      triggerComment,
+      userRequest,
+      sourceBranch,
+      before,
+      client.pullRequestUrl(prId, triggerComment.id)
+    );
+    response = [result.output, formatChangesReport(outcome)].filter(Boolean).join("\n\n");
+    commitSha = outcome.status === "pushed" ? outcome.sha : undefined;
+  }
+
+  if (response && choice.downgraded) {
+    response += `\n\n> 💰 **Reduced for cost:** answered with \`${choice.model}\` instead of \`${config.model}\` to stay within the cost budget.`;
+  }
+
   // 7. Post response as reply to the trigger comment
-  if (result.output && config.bitbucketToken) {
-    const reply = await client.replyToComment(config.prId, triggerComment.id, result.output);
+  if (response && config.bitbucketToken) {
+    const reply = await client.replyToComment(
+      prId,
+      triggerComment.id,
+      formatReply(response, spend)
+    );
 
     if (reply) {
       logger.success(`Responded to comment #${triggerComment.id}`);
-      return { success: true, responded: true, commentId: reply.id };
+      return { success: true, responded: true, commentId: reply.id, commitSha };
     }
+
+    const error = describeApiError(client.lastError, `reply to comment #${triggerComment.id}`);
+    logger.error(error);
+    console.log(redact(response));
+    return { success: false, responded: false, error, commitSha };
   }
 
   // No token - log response
   logger.info("Response (no token to post):");
-  console.log(result.output);
+  console.log(redact(response));
 
-  return { success: true, responded: false };
+  return { success: true, responded: false, commitSha };
 }
 
 /**
- * Find the most recent comment with trigger phrase that hasn't been replied to
+ * Reply without running Claude (help, unknown commands, budget spent)
+ * The reply marks the request as answered, so later runs don't retry it
  */
-function findTriggerComment(comments: PRComment[], triggerPhrase: string): PRComment | null {
-  // Sort by date descending (most recent first)
-  const sorted = [...comments].sort(
-    (a, b) => new Date(b.created_on).getTime() - new Date(a.created_on).getTime()
-  );
+async function replyWithoutClaude(
+  config: Config,
+  client: BitbucketProvider,
+  triggerComment: PRComment,
+  message: string
+): Promise<TagResult> {
+  if (!config.bitbucketToken) {
+    logger.info(message);
+    return { success: true, responded: false };
+  }
 
-  // Find comments with trigger phrase
-  const triggered = sorted.filter((c) =>
-    c.content.raw.toLowerCase().includes(triggerPhrase.toLowerCase())
-  );
+  const reply = await client.replyToComment(config.prId!, triggerComment.id, formatReply(message));
+  if (!reply) {
+    const error = describeApiError(client.lastError, `reply to comment #${triggerComment.id}`);
+    logger.error(error);
+    return { success: false, responded: false, error };
+  }
 
-  if (!triggered.length) return null;
+  return { success: true, responded: true, commentId: reply.id };
+}
+
+/**
+ * Commit what Claude changed in the working tree and push it to the PR branch
+ * Paths that were already uncommitted before Claude ran (install artifacts, leftovers
+ * of an earlier run) are left out
+ */
+function commitAndPushChanges(
+  config: Config,
+  trigger: PRComment,
+  request: string,
+  branch: string,
+  before: { head: string; uncommitted: Set<string> },
+  commentUrl: string
+): CodeChangeOutcome {
+  const headBefore = before.head;
+  const uncommitted = getUncommittedPaths();
+  const changed = uncommitted.filter((path) => !before.uncommitted.has(path));
+  const leftOut = uncommitted.filter((path) => before.uncommitted.has(path));
+  if (leftOut.length > 0) {
+    logger.warn(
+      `Not committing ${leftOut.length} path(s) that were uncommitted before the request: ${leftOut.join(", ")}`
+    );
+  }
+
+  // Claude may have committed on its own (it has Bash), so check HEAD as well as the tree
+  if (changed.length > 0) {
+    const message = buildCommitMessage({
+      prId: config.prId!,
+      request,
+      author: trigger.user.display_name,
+      commentId: trigger.id,
+      commentUrl,
+    });
+
+    if (!commitPaths(changed, message, COMMIT_AUTHOR)) {
+      return { status: "failed", error: "the changes could not be committed" };
+    }
+  }
+
+  const headAfter = getHeadSha();
+  if (!headAfter || headAfter === headBefore) {
+    logger.info("No code changes made");
+    return { status: "none" };
+  }
+
+  if (branch === "unknown") {
+    return { status: "failed", error: "the PR source branch is unknown" };
+  }
 
-  // Return most recent one
-  // TODO: Check if already responded (by looking for replies from our bot)
-  return triggered[0] ?? null;
+  if (config.dryRun) {
+    logger.info(`[dry run] Not pushing ${headAfter} to ${branch}`);
+  } else {
+    logger.info(`Pushing ${headAfter} to ${branch}...`);
+    const push = pushHead(branch);
+    if (!push.success) {
+      return { status: "failed", error: push.error || "git push failed" };
+    }
+
+    logger.success(`Pushed ${headAfter} to ${branch}`);
+  }
+  return {
+    status: "pushed",
+    sha: headAfter,
+    branch,
+    diffStat: headBefore ? getDiffStat(headBefore, headAfter) : "",
+  };
+}
+
+/**
+ * Follow parent links up to the top-level comment of a thread
+ */
+function getThreadRoot(comments: PRComment[], comment: PRComment): PRComment {
+  const byId = new Map(comments.map((c) => [c.id, c]));
+  const seen = new Set<number>();
+  let current = comment;
+
+  while (current.parent && !seen.has(current.id)) {
+    seen.add(current.id);
+    const parent = byId.get(current.parent.id);
+    if (!parent) break;
+    current = parent;
+  }
+
+  return current;
+}
+
+/**
+ * Get the messages in a comment's thread posted before it, oldest first
+ * (the parent chain plus sibling replies anywhere in the thread)
+ */
+export function getThreadHistory(comments: PRComment[], trigger: PRComment): PRComment[] {
+  const root = getThreadRoot(comments, trigger);
+  const before = new Date(trigger.created_on).getTime();
+
+  return comments
+    .filter(
+      (c) =>
+        c.id !== trigger.id &&
+        !c.deleted &&
+        getThreadRoot(comments, c).id === root.id &&
+        new Date(c.created_on).getTime() <= before
+    )
+    .sort((a, b) => new Date(a.created_on).getTime() - new Date(b.created_on).getTime());
+}
+
+/**
+ * Get the diff hunk an inline comment is attached to
+ */
+function getInlineHunk(
+  destinationBranch: string,
+  inline: NonNullable<PRComment["inline"]>
+): string | undefined {
+  const file = parseDiff(getFileDiff(destinationBranch, inline.path))[0];
+  if (!file) return undefined;
+
+  const hunk =
+    inline.to !== null
+      ? findHunkForLine(file, inline.to, "new")
+      : inline.from !== null
+        ? findHunkForLine(file, inline.from, "old")
+        : null;
+
+  if (!hunk) return undefined;
+
+  const text = [hunk.header, ...hunk.lines].join("\n").trimEnd();
+  const maxChars = MAX_THREAD_TOKENS * CHARS_PER_TOKEN;
+  return text.length > maxChars ? `${text.substring(0, maxChars)}\n... (hunk truncated)` : text;
+}
+
+// Helper: drop hidden marker lines from bot comments before showing them to Claude
+function stripMarkers(content: string): string {
+  return content.replace(/^\[\/\/\]: # \(.*\)$/gm, "").trim();
+}
+
+/**
+ * Check whether a comment was written by the bot
+ * (by author when the bot user is known, and always by the reply marker)
+ */
+export function isBotComment(comment: PRComment, botUuid?: string): boolean {
+  if (botUuid && comment.user?.uuid === botUuid) return true;
+  return isBotReply(comment.content.raw) || isReviewComment(comment.content.raw);
+}
+
+/**
+ * Find trigger comments the bot hasn't replied to yet, oldest first
+ */
+export function findOutstandingTriggers(
+  comments: PRComment[],
+  triggerPhrase: string,
+  botUuid?: string
+): PRComment[] {
+  const answered = new Set<number>();
+  for (const comment of comments) {
+    if (comment.parent && isBotComment(comment, botUuid)) {
+      answered.add(comment.parent.id);
+    }
+  }
+
+  return comments
+    .filter(
+      (c) =>
+        !c.deleted &&
+        !answered.has(c.id) &&
+        !isBotComment(c, botUuid) &&
+        findTriggerIndex(c.content.raw, triggerPhrase) !== -1
+    )
+    .sort((a, b) => new Date(a.created_on).getTime() - new Date(b.created_on).getTime());
+}
+
+/**
+ * Find the trigger phrase in a comment, ignoring quoted lines and code
+ * Returns -1 if the phrase only appears inside quotes/code (or not at all)
+ */
+export function findTriggerIndex(content: string, triggerPhrase: string): number {
+  const blank = (text: string) => text.replace(/[^\n]/g, " ");
+
+  // Mask rather than remove, so indexes still line up with the original text
+  const masked = content
+    .replace(/```[\s\S]*?(?:```|$)/g, blank)
+    .replace(/`[^`\n]*`/g, blank)
+    .replace(/^[ \t]*>.*$/gm, blank);
+
+  return masked.toLowerCase().indexOf(triggerPhrase.toLowerCase());
 }
 
 /**
  * Extract the actual request from the comment (after trigger phrase)
  */
 export function extractRequest(content: string, triggerPhrase: string): string {
-  const lower = content.toLowerCase();
-  const idx = lower.indexOf(triggerPhrase.toLowerCase());
+  const idx = findTriggerIndex(content, triggerPhrase);
 
   if (idx === -1) return content;
 
@@ -162,6 +529,49 @@ export function extractRequest(content: string, triggerPhrase: string): string {
   return afterTrigger || content;
 }
 
+/**
+ * Parse a slash command at the start of a request, e.g. "/explain src/app.ts:10-20 why?"
+ * Returns null for free-form text, and an error for unknown commands
+ */
+export function parseTagCommand(request: string): TagCommand | { error: string } | null {
+  const match = request.match(/^\/([a-z]+)\b\s*([\s\S]*)$/i);
+  if (!match) return null;
+
+  const name = match[1]!.toLowerCase();
+  if (!Object.hasOwn(TAG_COMMANDS, name)) {
+    return { error: `Unknown command \`/${name}\`.` };
+  }
+  if (name === "help") return { name };
+
+  // An optional leading path, with an optional line or range: src/app.ts, src/app.ts:12-30
+  let args = match[2]!.trim();
+  let target: { path: string; from?: number; to?: number } | undefined;
+  const targetMatch = args.match(/^(\S+?)(?::(\d+)(?:-(\d+))?)?(?=\s|$)/);
+  const path = targetMatch?.[1];
+  if (path && (targetMatch[2] || path.includes("/") || /\.[A-Za-z0-9]+$/.test(path))) {
+    target = { path };
+    if (targetMatch[2]) {
+      target.from = Number(targetMatch[2]);
+      target.to = Number(targetMatch[3] ?? targetMatch[2]);
+    }
+    args = args.substring(targetMatch[0].length).trim();
+  }
+
+  return { name: name as Exclude<TagCommandName, "help">, target, args };
+}
+
+// Helper: the PR diff for commands that work on the changes (one file when targeted),
+// trimmed to the review batch budget
+function getCommandDiff(config: Config, command: TagCommand): string | undefined {
+  if (command.name !== "review" && command.name !== "summarize") return undefined;
+
+  const diff = command.target
+    ? getFileDiff(config.destinationBranch, command.target.path)
+    : getLocalDiff(config.destinationBranch);
+  const maxChars = MAX_BATCH_TOKENS * CHARS_PER_TOKEN;
+  return diff.length > maxChars ? `${diff.substring(0, maxChars)}\n... (diff truncated)` : diff;
+}
+
 /**
  * Classify if request is actionable (needs code changes) or informational
  */
@@ -0,0 +1,168 @@
+/**
+ * Describe mode prompt templates
+ */
+
+import type { PRDescription } from "../shared";
+import { redact } from "../utils/redact";
+
+export interface DescribePromptParams {
+  title: string;
+  sourceBranch: string;
+  destBranch: string;
+  /** Messages of the PR's commits, oldest first */
+  commits: string[];
+  diff: string;
+  /** Changed files left out of the diff (generated, excluded or over the size limit) */
+  omittedFiles?: string[];
+  /** What the author wrote in the description (outside the generated section) */
+  authorText?: string;
+}
+
+// Hidden markdown lines around the generated part of the description
+// (link reference definitions don't render); the start line records the described commit
+const SECTION_START = /^\[\/\/\]: # \(claude-description(?: head=([0-9a-f]{7,40}))?\)$/m;
+const SECTION_END = /^\[\/\/\]: # \(claude-description-end\)$/m;
+
+/**
+ * Build the prompt for Claude to describe the PR
+ */
+export function buildDescribePrompt(params: DescribePromptParams): string {
+  const { title, sourceBranch, destBranch, commits, diff, omittedFiles, authorText } = params;
+
+  const commitList = commits.length > 0 ? commits.map((c) => `- ${c}`).join("\n") : "(none)";
+  const author = authorText
+    ? `\n## Author's Description\nDon't contradict it or repeat it word for word.\n\n${authorText}\n`
+    : "";
+  const omitted =
+    omittedFiles && omittedFiles.length > 0
+      ? `\nAlso changed, but not shown in the diff: ${omittedFiles.join(", ")}\n`
+      : "";
+
+  return redact(`Write a description for this PR, for the reviewers. Be concise and factual -
+describe only what the diff and commits show.
+
+**${title}** (${sourceBranch} → ${destBranch})
+${author}
+## Commits
+${commitList}
+
+Respond with ONLY a JSON object in a \`\`\`json block, using this shape:
+
+\`\`\`json
+{
+  "summary": "One or two sentences on what the PR does",
+  "motivation": "Why the change is needed (say \\"Not stated\\" if the commits don't say)",
+  "changes": ["Notable change, naming the files or components involved"],
+  "testing": "Tests added or changed, and how to verify the change",
+  "risk": "What could break, and how likely - e.g. \\"Low: only affects ...\\""
+}
+\`\`\`
+
+\`\`\`diff
+${diff}
+\`\`\`${omitted}`);
+}
+
+/**
+ * Parse Claude's description output
+ * Returns null if the output doesn't contain the expected JSON
+ */
+export function parseDescribeOutput(output: string): PRDescription | null {
+  const fenced = output.match(/```(?:json)?\s*\n([\s\S]*?)\n```/);
+  const candidate = fenced?.[1] ?? output;
+
+  let json: unknown;
+  try {
+    json = JSON.parse(candidate.trim());
+  } catch {
+    return null;
+  }
+
+  if (!json || typeof json !== "object") return null;
+
+  const { summary, motivation, changes, testing, risk } = json as Record<string, unknown>;
+  if (typeof summary !== "string" || !summary.trim()) return null;
+
+  const text = (value: unknown) => (typeof value === "string" ? value.trim() : "");
+  return {
+    summary: summary.trim(),
+    motivation: text(motivation),
+    changes: Array.isArray(changes) ? changes.map(text).filter(Boolean) : [],
+    testing: text(testing),
+    risk: text(risk),
+  };
+}
+
+/**
+ * Format the generated section of the description, between its hidden markers
+ */
+export function formatDescription(description: PRDescription, headSha?: string): string {
+  const { summary, motivation, changes, testing, risk } = description;
+  const sections = [
+    `## Summary\n\n${summary}`,
+    motivation && `## Motivation\n\n${motivation}`,
+    changes.length > 0 && `## Notable Changes\n\n${changes.map((c) => `- ${c}`).join("\n")}`,
+    testing && `## Testing\n\n${testing}`,
+    risk && `## Risk\n\n${risk}`,
+  ].filter(Boolean);
+
+  const start = headSha
+    ? `[//]: # (claude-description head=${headSha})`
+    : "[//]: # (claude-description)";
+
+  return `${start}
+
+${sections.join("\n\n")}
+
+---
+*Description generated by Claude - edit outside this section, it is replaced on reruns*
+
+[//]: # (claude-description-end)`;
+}
+
+/**
+ * Split a PR description into the author's text and the generated section
+ */
+export function splitDescription(description: string): {
+  authorText: string;
+  generated: string | null;
+  headSha?: string;
+} {
+  const section = findSection(description);
+  if (!section) {
+    return { authorText: description.trim(), generated: null };
+  }
+
+  const before = description.substring(0, section.start).trim();
+  const after = description.substring(section.end).trim();
+  return {
+    authorText: [before, after].filter(Boolean).join("\n\n"),
+    generated: description.substring(section.start, section.end),
+    headSha: section.headSha,
+  };
+}
+
+/**
+ * Put a newly generated section into the description, keeping the author's text
+ * The section replaces the previous one in place, or goes below the author's text
+ */
+export function mergeDescription(current: string, generated: string): string {
+  const section = findSection(current);
+  if (!section) {
+    return current.trim() ? `${current.trim()}\n\n${generated}` : generated;
+  }
+
+  return current.substring(0, section.start) + generated + current.substring(section.end);
+}
+
+// Helper: locate the generated section (an unterminated section runs to the end)
+function findSection(description: string): { start: number; end: number; headSha?: string } | null {
+  const start = description.match(SECTION_START);
+  if (!start || start.index === undefined) return null;
+
+  const rest = description.substring(start.index);
+  const end = rest.match(SECTION_END);
+  const length = end?.index !== undefined ? end.index + end[0].length : rest.length;
+
+  return { start: start.index, end: start.index + length, headSha: start[1] };
+}
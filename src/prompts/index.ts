@@ -2,11 +2,42 @@
  * Prompt templates barrel export
  */
 
-export { buildReviewPrompt, formatReviewComment, type ReviewPromptParams } from "./review";
+export {
+  buildReviewPrompt,
+  parseReviewOutput,
+  formatFindingComment,
+  formatReviewSummary,
+  formatCoverage,
+  formatReviewComment,
+  parseReviewMetadata,
+  isReviewComment,
+  type ReviewPromptParams,
+  type ReviewCommentOptions,
+  type ParsedReview,
+} from "./review";
 
 export {
   buildTagPrompt,
+  buildCommandPrompt,
+  formatCommandHelp,
   buildActionablePrompt,
   buildInformationalPrompt,
+  buildCommitMessage,
+  formatChangesReport,
+  formatReply,
+  isBotReply,
+  formatConversation,
   type TagPromptParams,
+  type ConversationMessage,
 } from "./tag";
+
+export { formatUsageMarker, parseUsageMarker, sumPrSpend } from "./usage";
+
+export {
+  buildDescribePrompt,
+  parseDescribeOutput,
+  formatDescription,
+  splitDescription,
+  mergeDescription,
+  type DescribePromptParams,
+} from "./describe";
@@ -2,45 +2,281 @@
  * Review mode prompt templates
  */
 
-import { MAX_DIFF_SIZE } from "../shared";
+import {
+  SEVERITY_BADGES,
+  isValidSeverity,
+  type ReviewCoverage,
+  type ReviewFinding,
+  type ReviewMetadata,
+  type Severity,
+  type Spend,
+} from "../shared";
+import { redact } from "../utils/redact";
+import { formatUsageMarker } from "./usage";
 
 export interface ReviewPromptParams {
   title: string;
   sourceBranch: string;
   destBranch: string;
   diff: string;
+  /** Set when the diff is one of several batches of a larger PR */
+  batch?: {
+    index: number;
+    total: number;
+  };
+  /** Repository-specific review instructions */
+  instructions?: string;
 }
 
+/** Structured review parsed from Claude's output */
+export interface ParsedReview {
+  summary: string;
+  findings: ReviewFinding[];
+}
+
+/** Options for the posted review comment */
+export interface ReviewCommentOptions {
+  coverage?: ReviewCoverage;
+  /** Commit state to embed, so the next run can review incrementally */
+  metadata?: ReviewMetadata;
+  /** Set for incremental reviews - the previously reviewed commit */
+  sinceSha?: string;
+  /** Most severe finding of earlier reviews that this run couldn't re-check */
+  carriedSeverity?: Severity;
+  /** Why the review was scaled back to stay within the cost budget */
+  costNote?: string;
+  /** Spent on reviews of this PR so far, including this run */
+  usage?: Spend;
+}
+
+// Hidden markdown line identifying our review comment and carrying its metadata
+// (link reference definitions don't render)
+const REVIEW_MARKER =
+  /^\[\/\/\]: # \(claude-review(?: head=([0-9a-f]{7,40}) base=([0-9a-f]{7,40})(?: open=(\w+))?)?\)$/m;
+
 /**
  * Build the prompt for Claude to review the PR
+ * Secrets in the diff are masked - review mode flags them separately
  */
 export function buildReviewPrompt(params: ReviewPromptParams): string {
-  const { title, sourceBranch, destBranch, diff } = params;
+  const { title, sourceBranch, destBranch, diff, batch, instructions } = params;
 
-  return `Review this PR. Be concise - bullet points only.
+  const batchInfo = batch
+    ? `\nThis PR is too large to review at once. This is part ${batch.index} of ${batch.total} - review only the files in this part.\n`
+    : "";
 
-**${title}** (${sourceBranch} → ${destBranch})
+  return redact(`Review this PR. Be concise.
 
+**${title}** (${sourceBranch} → ${destBranch})
+${batchInfo}
 Check for: bugs, security issues, logic errors. Skip style nits.
+${instructions ? `\n## Repository Instructions\n${instructions}\n` : ""}
+Respond with ONLY a JSON object in a \`\`\`json block, using this shape:
 
-Format: 🔴 Critical | 🟡 Important | 🟢 Minor
-- File:line - Issue - Fix
+\`\`\`json
+{
+  "summary": "One or two sentences on the overall state of the PR",
+  "findings": [
+    {
+      "file": "path/to/file.ts",
+      "line": 42,
+      "severity": "critical | important | minor",
+      "message": "What is wrong",
+      "suggestion": "How to fix it (optional)"
+    }
+  ]
+}
+\`\`\`
 
-If code is good, just say "LGTM".
+- "file" is the path as shown in the diff (after "b/")
+- "line" is the line number in the NEW version of the file, on a line changed by this diff
+- If code is good, use "LGTM" as the summary and an empty findings array
 
 \`\`\`diff
-${diff.substring(0, MAX_DIFF_SIZE)}
-\`\`\``;
+${diff}
+\`\`\``);
+}
+
+/**
+ * Parse Claude's review output into structured findings
+ * Returns null if the output doesn't contain the expected JSON
+ */
+export function parseReviewOutput(output: string): ParsedReview | null {
+  const fenced = output.match(/```(?:json)?\s*\n([\s\S]*?)\n```/);
+  const candidate = fenced?.[1] ?? output;
+
+  let json: unknown;
+  try {
+    json = JSON.parse(candidate.trim());
+  } catch {
+    return null;
+  }
+
+  if (!json || typeof json !== "object") return null;
+
+  const { summary, findings } = json as { summary?: unknown; findings?: unknown };
+  if (!Array.isArray(findings)) return null;
+
+  const parsed: ReviewFinding[] = [];
+  for (const item of findings) {
+    const finding = toFinding(item);
+    if (finding) parsed.push(finding);
+  }
+
+  return {
+    summary: typeof summary === "string" ? summary.trim() : "",
+    findings: parsed,
+  };
+}
+
+// Helper: validate a single raw finding from Claude's JSON
+function toFinding(item: unknown): ReviewFinding | null {
+  if (!item || typeof item !== "object") return null;
+
+  const { file, line, severity, message, suggestion } = item as Record<string, unknown>;
+
+  if (typeof file !== "string" || !file) return null;
+  if (typeof message !== "string" || !message) return null;
+
+  const lineNumber = typeof line === "string" ? parseInt(line, 10) : line;
+  if (typeof lineNumber !== "number" || !Number.isInteger(lineNumber) || lineNumber < 1) {
+    return null;
+  }
+
+  const normalizedSeverity = typeof severity === "string" ? severity.toLowerCase() : "";
+
+  return {
+    file: file.replace(/^b\//, ""),
+    line: lineNumber,
+    severity: isValidSeverity(normalizedSeverity) ? normalizedSeverity : "minor",
+    message: message.trim(),
+    suggestion: typeof suggestion === "string" && suggestion.trim() ? suggestion.trim() : undefined,
+  };
+}
+
+/**
+ * Format a single finding for posting as an inline comment
+ */
+export function formatFindingComment(finding: ReviewFinding): string {
+  const fix = finding.suggestion ? `\n\n**Suggested fix:** ${finding.suggestion}` : "";
+  return `**${SEVERITY_BADGES[finding.severity]}** - ${finding.message}${fix}`;
+}
+
+/**
+ * Format the summary comment posted alongside inline findings
+ * Findings that couldn't be placed on a diff line are listed here instead
+ */
+export function formatReviewSummary(
+  summary: string,
+  inline: ReviewFinding[],
+  unplaced: ReviewFinding[],
+  options: ReviewCommentOptions = {}
+): string {
+  const sections: string[] = [summary || "Review complete."];
+
+  const all = [...inline, ...unplaced];
+  if (all.length > 0) {
+    const counts = (["critical", "important", "minor"] as const)
+      .map((severity) => ({ severity, count: all.filter((f) => f.severity === severity).length }))
+      .filter(({ count }) => count > 0)
+      .map(({ severity, count }) => `${SEVERITY_BADGES[severity]}: ${count}`);
+    sections.push(counts.join(" | "));
+  }
+
+  if (inline.length > 0) {
+    sections.push(`${inline.length} finding(s) posted as inline comments.`);
+  }
+
+  if (unplaced.length > 0) {
+    const items = unplaced.map(
+      (f) =>
+        `- **${SEVERITY_BADGES[f.severity]}** \`${f.file}:${f.line}\` - ${f.message}` +
+        (f.suggestion ? ` - ${f.suggestion}` : "")
+    );
+    sections.push(`### Other findings\n\n${items.join("\n")}`);
+  }
+
+  return formatReviewComment(sections.join("\n\n"), options);
+}
+
+/**
+ * Format which files were reviewed, skipped or excluded (and why)
+ */
+export function formatCoverage(coverage: ReviewCoverage): string {
+  const { reviewed, skipped, excluded } = coverage;
+  const lines: string[] = [];
+
+  if (reviewed.length > 0) {
+    lines.push(
+      `**Reviewed ${reviewed.length} file(s):** ${reviewed.map((f) => `\`${f}\``).join(", ")}`
+    );
+  } else {
+    lines.push("**No files were reviewed.**");
+  }
+
+  if (skipped.length > 0) {
+    lines.push("", `**Not reviewed (${skipped.length}):**`);
+    lines.push(...skipped.map((s) => `- \`${s.path}\` - ${s.reason}`));
+  }
+
+  if (excluded.length > 0) {
+    lines.push("", `**Excluded by filters (${excluded.length}):**`);
+    lines.push(...excluded.map((s) => `- \`${s.path}\` - ${s.reason}`));
+  }
+
+  return `### Coverage\n\n${lines.join("\n")}`;
 }
 
 /**
  * Format the review output for posting as a comment
  */
-export function formatReviewComment(output: string): string {
+export function formatReviewComment(output: string, options: ReviewCommentOptions = {}): string {
+  const { coverage, metadata, sinceSha, carriedSeverity, costNote, usage } = options;
+
+  const scope = sinceSha
+    ? `*Incremental review of changes since \`${sinceSha.substring(0, 7)}\`*\n\n`
+    : "";
+  const carried = carriedSeverity
+    ? `*Earlier ${carriedSeverity} finding(s) could not be re-checked in this run and stay open*\n\n`
+    : "";
+  const cost = costNote ? `> 💰 **Reduced for cost:** ${costNote}\n\n` : "";
+  const coverageSection = coverage ? `\n\n${formatCoverage(coverage)}` : "";
+  const updated = metadata
+    ? ` - last updated for commit \`${metadata.headSha.substring(0, 7)}\``
+    : "";
+  const marker = metadata
+    ? `[//]: # (claude-review head=${metadata.headSha} base=${metadata.baseSha}${metadata.openSeverity ? ` open=${metadata.openSeverity}` : ""})`
+    : "[//]: # (claude-review)";
+  const usageMarker = usage ? `\n${formatUsageMarker(usage, true)}` : "";
+
   return `## Claude Code Review
 
-${output}
+${scope}${carried}${cost}${output}${coverageSection}
 
 ---
-*Automated review by Claude*`;
+*Automated review by Claude${updated}*
+
+${marker}${usageMarker}`;
+}
+
+/**
+ * Check whether a comment is a review comment posted by this tool
+ */
+export function isReviewComment(comment: string): boolean {
+  return REVIEW_MARKER.test(comment);
+}
+
+/**
+ * Read the review metadata embedded in a previous review comment
+ */
+export function parseReviewMetadata(comment: string): ReviewMetadata | null {
+  const match = comment.match(REVIEW_MARKER);
+  if (!match?.[1] || !match[2]) return null;
+
+  const open = match[3];
+  return {
+    headSha: match[1],
+    baseSha: match[2],
+    ...(open && isValidSeverity(open) ? { openSeverity: open } : {}),
+  };
 }
@@ -2,6 +2,26 @@
  * Tag mode prompt templates
  */
 
+import {
+  CHARS_PER_TOKEN,
+  MAX_THREAD_TOKENS,
+  TAG_COMMANDS,
+  estimateTokens,
+  type CodeChangeOutcome,
+  type TagCommand,
+  type TagCommandName,
+  type Spend,
+} from "../shared";
+import { redact } from "../utils/redact";
+import { formatUsageMarker } from "./usage";
+
+/** One earlier message in the comment thread */
+export interface ConversationMessage {
+  author: string;
+  isBot: boolean;
+  content: string;
+}
+
 export interface TagPromptParams {
   prId: number;
   sourceBranch: string;
@@ -12,23 +32,90 @@ export interface TagPromptParams {
     from: number | null;
     to: number | null;
   };
+  /** The diff hunk an inline thread is attached to */
+  diffHunk?: string;
+  /** Earlier messages in the thread, oldest first */
+  conversation?: ConversationMessage[];
+  /** The PR's changes, for commands that work on the diff */
+  diff?: string;
+}
+
+/**
+ * Build the context sections shared by both tag prompts
+ */
+function buildContextSections(params: TagPromptParams): string {
+  const { inlineContext, diffHunk, conversation, diff } = params;
+  const sections: string[] = [];
+
+  if (inlineContext) {
+    sections.push(`## Inline Comment Context
+The user commented on file: **${inlineContext.path}**
+Lines: ${inlineContext.from || "start"} - ${inlineContext.to || "end"}`);
+  }
+
+  if (diffHunk) {
+    sections.push(`## Diff Hunk
+\`\`\`diff
+${diffHunk}
+\`\`\``);
+  }
+
+  if (diff) {
+    sections.push(`## Changes in This PR
+\`\`\`diff
+${diff}
+\`\`\``);
+  }
+
+  if (conversation && conversation.length > 0) {
+    sections.push(`## Conversation So Far
+Earlier messages in this comment thread, oldest first. "Claude" messages are your previous answers.
+
+${formatConversation(conversation, MAX_THREAD_TOKENS)}`);
+  }
+
+  return sections.length > 0 ? `\n${sections.join("\n\n")}\n` : "";
+}
+
+/**
+ * Render thread messages as a transcript, keeping the most recent ones within a token budget
+ */
+export function formatConversation(messages: ConversationMessage[], maxTokens: number): string {
+  const rendered: string[] = [];
+  let tokens = 0;
+
+  // Walk newest to oldest so the messages closest to the request survive the budget
+  for (let i = messages.length - 1; i >= 0; i--) {
+    const message = messages[i]!;
+    const speaker = message.isBot ? "Claude" : message.author;
+    let entry = `**${speaker}:**\n${message.content.trim()}`;
+
+    const remaining = maxTokens - tokens;
+    if (estimateTokens(entry) > remaining) {
+      // Always keep at least part of the most recent message
+      if (rendered.length > 0) {
+        rendered.push(`*(${i + 1} earlier message(s) omitted)*`);
+        break;
+      }
+      entry = `${entry.substring(0, remaining * CHARS_PER_TOKEN)}\n*(truncated)*`;
+    }
+
+    rendered.push(entry);
+    tokens += estimateTokens(entry);
+  }
+
+  return rendered.reverse().join("\n\n");
 }
 
 /**
  * Build prompt for actionable requests (code changes)
  */
 export function buildActionablePrompt(params: TagPromptParams): string {
-  const { prId, sourceBranch, destBranch, request, inlineContext } = params;
+  const { prId, sourceBranch, destBranch, request } = params;
 
-  const contextInfo = inlineContext
-    ? `
-## Inline Comment Context
-The user commented on file: **${inlineContext.path}**
-Lines: ${inlineContext.from || "start"} - ${inlineContext.to || "end"}
-`
-    : "";
+  const contextInfo = buildContextSections(params);
 
-  return `
+  return redact(`
 # Pull Request Task
 
 **PR #${prId}**
@@ -45,25 +132,21 @@ The user has requested a code change. You should:
 2. Make the requested changes using Edit or Write tools
 3. If you make changes, explain what you did
 
+Do not commit or push - your changes are committed and pushed to the PR branch automatically.
+
 Be concise in your response. Focus on completing the task.
-`;
+`);
 }
 
 /**
  * Build prompt for informational requests (questions)
  */
 export function buildInformationalPrompt(params: TagPromptParams): string {
-  const { prId, sourceBranch, destBranch, request, inlineContext } = params;
+  const { prId, sourceBranch, destBranch, request } = params;
 
-  const contextInfo = inlineContext
-    ? `
-## Inline Comment Context
-The user commented on file: **${inlineContext.path}**
-Lines: ${inlineContext.from || "start"} - ${inlineContext.to || "end"}
-`
-    : "";
+  const contextInfo = buildContextSections(params);
 
-  return `
+  return redact(`
 # Pull Request Question
 
 **PR #${prId}**
@@ -79,7 +162,7 @@ The user is asking a question. Provide a helpful, concise answer.
 - Read relevant files if needed to understand context
 - Do NOT make any code changes
 - Be direct and helpful
-`;
+`);
 }
 
 /**
@@ -88,3 +171,140 @@ The user is asking a question. Provide a helpful, concise answer.
 export function buildTagPrompt(params: TagPromptParams, isActionable: boolean): string {
   return isActionable ? buildActionablePrompt(params) : buildInformationalPrompt(params);
 }
+
+// What Claude is asked to do for each slash command (help is answered without Claude)
+const COMMAND_INSTRUCTIONS: Record<Exclude<TagCommandName, "help">, string> = {
+  review: `Review the changes shown above (only the target file, if one is given).
+
+- List concrete problems - bugs, security issues, missing error handling - most severe first, each with its file and line
+- Say so plainly if you find nothing worth changing
+- Do NOT make any code changes`,
+  explain: `Explain how the target code works (or the code the comment is on), focusing on the user's question if there is one.
+
+- Read the relevant files first
+- Do NOT make any code changes`,
+  fix: `Fix the problem the user describes (in the target file, if one is given).
+
+1. Read the relevant files to understand the context
+2. Make the smallest change that fixes it, using Edit or Write tools
+3. Explain what you changed
+
+Do not commit or push - your changes are committed and pushed to the PR branch automatically.`,
+  tests: `Write or update tests for the target code (or for this PR's changes, if no target is given).
+
+1. Follow the repository's existing test framework, layout and style
+2. Run the tests if you can, and fix the tests you wrote until they pass
+3. Explain what the tests cover
+
+Do not commit or push - your changes are committed and pushed to the PR branch automatically.`,
+  summarize: `Summarize this PR for a reviewer: one short paragraph on what it does and why, then the notable changes as a bullet list.
+
+- Do NOT make any code changes`,
+};
+
+/**
+ * Build the prompt for a slash command
+ */
+export function buildCommandPrompt(
+  params: TagPromptParams,
+  command: Exclude<TagCommand, { name: "help" }>
+): string {
+  const { prId, sourceBranch, destBranch } = params;
+  const { name, target, args } = command;
+  const contextInfo = buildContextSections(params);
+  const lines = target?.from ? ` (lines ${target.from}-${target.to ?? target.from})` : "";
+  const targetInfo = target ? `\n## Target\n\`${target.path}\`${lines}\n` : "";
+
+  return redact(`
+# Pull Request Command: /${name}
+
+**PR #${prId}**
+**Branch:** ${sourceBranch} → ${destBranch}
+${contextInfo}${targetInfo}
+## User Request
+${args || "(no further details)"}
+
+## Instructions
+${COMMAND_INSTRUCTIONS[name]}
+
+Be concise in your response.
+`);
+}
+
+/**
+ * List the slash commands, for `/help` and unknown commands
+ */
+export function formatCommandHelp(triggerPhrase: string): string {
+  const rows = Object.entries(TAG_COMMANDS).map(
+    ([name, { args, summary }]) => `| \`/${name}${args ? ` ${args}` : ""}\` | ${summary} |`
+  );
+
+  return `**Commands** - e.g. \`${triggerPhrase} /explain src/app.ts:10-20\`
+
+| Command | What it does |
+|---------|--------------|
+${rows.join("\n")}
+
+\`lines\` is a line or a range (\`12\` or \`12-30\`). Anything else after ${triggerPhrase} is answered as a free-form request.`;
+}
+
+/**
+ * Build the commit message for changes made on behalf of a comment
+ */
+export function buildCommitMessage(params: {
+  prId: number;
+  request: string;
+  author: string;
+  commentId: number;
+  commentUrl?: string;
+}): string {
+  const { prId, request, author, commentId, commentUrl } = params;
+
+  const firstLine = request.split("\n")[0]?.trim() ?? "";
+  const subject = firstLine.length > 60 ? `${firstLine.substring(0, 57)}...` : firstLine;
+
+  return `Apply review request from PR #${prId}: ${subject}
+
+${request.trim()}
+
+Requested by ${author} in comment #${commentId}${commentUrl ? `\n${commentUrl}` : ""}
+`;
+}
+
+/**
+ * Format the note appended to the reply describing what happened to code changes
+ */
+export function formatChangesReport(outcome: CodeChangeOutcome): string {
+  switch (outcome.status) {
+    case "none":
+      return "---\n*No code changes were made.*";
+    case "pushed":
+      return `---
+Pushed commit \`${outcome.sha.substring(0, 7)}\` to \`${outcome.branch}\`:
+
+\`\`\`
+${outcome.diffStat}
+\`\`\``;
+    case "failed":
+      return `---\n⚠️ **Changes were made but could not be pushed:** ${outcome.error}`;
+  }
+}
+
+// Hidden markdown line marking our replies (link reference definitions don't render)
+const REPLY_MARKER = "[//]: # (claude-reply)";
+
+/**
+ * Format a reply to a trigger comment, tagged so later runs know it was answered
+ * (and, when given, with what answering it cost)
+ */
+export function formatReply(response: string, usage?: Spend): string {
+  const usageMarker = usage ? `\n${formatUsageMarker(usage)}` : "";
+  return `${response}\n\n${REPLY_MARKER}${usageMarker}`;
+}
+
+/**
+ * Check whether a comment is a reply posted by this tool
+ */
+export function isBotReply(comment: string): boolean {
+  return comment.includes(REPLY_MARKER);
+}
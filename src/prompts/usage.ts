@@ -0,0 +1,50 @@
+/**
+ * Spend markers embedded in posted comments
+ * Later runs add them up to enforce the per-PR budget
+ */
+
+import type { Spend } from "../shared";
+
+// Hidden markdown line carrying what was spent (link reference definitions don't render)
+// "total" marks a running total - the review comment is edited in place, so it carries
+// every review run; replies carry only their own run
+const USAGE_MARKER = /^\[\/\/\]: # \(claude-usage( total)? tokens=(\d+) usd=(\d+(?:\.\d+)?)\)$/m;
+
+/**
+ * Format the hidden spend marker for a comment
+ */
+export function formatUsageMarker(spend: Spend, total = false): string {
+  const tokens = Math.round(spend.tokens);
+  return `[//]: # (claude-usage${total ? " total" : ""} tokens=${tokens} usd=${spend.usd.toFixed(4)})`;
+}
+
+/**
+ * Read the spend marker from a comment
+ */
+export function parseUsageMarker(comment: string): (Spend & { total: boolean }) | null {
+  const match = comment.match(USAGE_MARKER);
+  if (!match?.[2] || !match[3]) return null;
+  return { tokens: Number(match[2]), usd: Number(match[3]), total: Boolean(match[1]) };
+}
+
+/**
+ * Total spent on a PR by earlier runs, from the bot's comments
+ * Replies are added up; of the running totals only the largest (latest) counts
+ */
+export function sumPrSpend(comments: string[]): Spend {
+  let runs: Spend = { tokens: 0, usd: 0 };
+  let total: Spend = { tokens: 0, usd: 0 };
+
+  for (const comment of comments) {
+    const spend = parseUsageMarker(comment);
+    if (!spend) continue;
+
+    if (!spend.total) {
+      runs = { tokens: runs.tokens + spend.tokens, usd: runs.usd + spend.usd };
+    } else if (spend.usd > total.usd || spend.tokens > total.tokens) {
+      total = { tokens: spend.tokens, usd: spend.usd };
+    }
+  }
+
+  return { tokens: runs.tokens + total.tokens, usd: runs.usd + total.usd };
+}
@@ -0,0 +1,124 @@
+/**
+ * Bitbucket API error classification
+ * Turns HTTP failures into typed errors and actionable messages
+ */
+
+/** Category of a failed Bitbucket API call */
+export type ApiErrorKind =
+  | "auth" // 401 - token missing, invalid or expired
+  | "forbidden" // 403 - token valid but lacks a scope or permission
+  | "not_found" // 404 - wrong workspace/repo/PR, or no access to it
+  | "rate_limited" // 429
+  | "server" // 5xx
+  | "client" // other 4xx (bad payload etc.)
+  | "timeout"
+  | "network";
+
+/** A failed Bitbucket API call */
+export interface BitbucketApiError {
+  kind: ApiErrorKind;
+  status?: number;
+  message: string;
+  /** Scopes Bitbucket says the call requires (403 responses) */
+  requiredScopes?: string[];
+  /** Seconds to wait before retrying, from the Retry-After header */
+  retryAfter?: number;
+}
+
+/**
+ * Build a typed error from a non-OK HTTP response
+ */
+export function errorFromResponse(
+  status: number,
+  body: string,
+  retryAfterHeader: string | null
+): BitbucketApiError {
+  const { message, requiredScopes } = parseErrorBody(body);
+
+  return {
+    kind: kindForStatus(status),
+    status,
+    message: message || `HTTP ${status}`,
+    requiredScopes,
+    retryAfter: parseRetryAfter(retryAfterHeader),
+  };
+}
+
+/**
+ * Whether a failed call is worth retrying
+ * Non-idempotent calls (POST) are only retried when the server says it didn't process them
+ */
+export function isRetryable(error: BitbucketApiError, method: string): boolean {
+  if (error.kind === "rate_limited") return true;
+  if (method === "POST") return error.status === 503;
+  return error.kind === "server" || error.kind === "network" || error.kind === "timeout";
+}
+
+/**
+ * Turn an error into a message a user can act on
+ * `action` describes what was being attempted, e.g. "post the review comment"
+ */
+export function describeApiError(error: BitbucketApiError | null, action: string): string {
+  if (!error) return `Failed to ${action}`;
+
+  switch (error.kind) {
+    case "auth":
+      return `Failed to ${action}: Bitbucket rejected the token (401) - check BITBUCKET_ACCESS_TOKEN is valid and not expired`;
+    case "forbidden":
+      return error.requiredScopes?.length
+        ? `Failed to ${action}: token lacks ${error.requiredScopes.join(", ")} scope`
+        : `Failed to ${action}: permission denied (403) - ${error.message}`;
+    case "not_found":
+      return `Failed to ${action}: not found (404) - check the workspace, repository and PR ID, and that the token can access the repository`;
+    case "rate_limited":
+      return `Failed to ${action}: rate limited by Bitbucket (429) - try again later`;
+    case "server":
+      return `Failed to ${action}: Bitbucket server error (${error.status})`;
+    case "timeout":
+      return `Failed to ${action}: request to Bitbucket timed out`;
+    case "network":
+      return `Failed to ${action}: could not reach Bitbucket (${error.message})`;
+    case "client":
+      return `Failed to ${action}: Bitbucket rejected the request (${error.status}) - ${error.message}`;
+  }
+}
+
+/**
+ * Parse a Retry-After header (delay in seconds or an HTTP date) into seconds
+ */
+export function parseRetryAfter(header: string | null): number | undefined {
+  if (!header) return undefined;
+
+  const seconds = Number(header);
+  if (!isNaN(seconds)) return Math.max(0, seconds);
+
+  const date = Date.parse(header);
+  if (!isNaN(date)) return Math.max(0, Math.ceil((date - Date.now()) / 1000));
+
+  return undefined;
+}
+
+// Helper: map an HTTP status to an error kind
+function kindForStatus(status: number): ApiErrorKind {
+  if (status === 401) return "auth";
+  if (status === 403) return "forbidden";
+  if (status === 404) return "not_found";
+  if (status === 429) return "rate_limited";
+  if (status >= 500) return "server";
+  return "client";
+}
+
+// Helper: pull the message and required scopes out of Bitbucket's error JSON
+// e.g. { "type": "error", "error": { "message": "...", "detail": { "required": ["pullrequest:write"] } } }
+function parseErrorBody(body: string): { message: string; requiredScopes?: string[] } {
+  try {
+    const json = JSON.parse(body);
+    const required = json?.error?.detail?.required;
+    return {
+      message: typeof json?.error?.message === "string" ? json.error.message : body.trim(),
+      requiredScopes: Array.isArray(required) ? required.map(String) : undefined,
+    };
+  } catch {
+    return { message: body.trim().substring(0, 200) };
+  }
+}
@@ -0,0 +1,522 @@
+/**
+ * Bitbucket Server / Data Center API client using native fetch
+ * Talks to the REST API 1.0 and converts responses into the shared provider types
+ */
+
+import type { Config } from "../shared/config";
+import { logger } from "../utils/logger";
+import { ApiClient } from "./http";
+import type {
+  BitbucketProvider,
+  BitbucketUser,
+  BuildStatus,
+  InsightsAnnotation,
+  InsightsReport,
+  PRComment,
+  PRParticipant,
+  PullRequest,
+} from "./provider";
+
+/** Page size for list endpoints */
+const PAGE_LIMIT = 100;
+
+/** Safety cap on pages fetched from a single list endpoint */
+const MAX_PAGES = 50;
+
+/**
+ * Paginated list response from the Data Center API
+ */
+interface ServerPage<T> {
+  values: T[];
+  isLastPage: boolean;
+  nextPageStart?: number;
+}
+
+interface ServerUser {
+  name: string;
+  slug: string;
+  displayName: string;
+}
+
+interface ServerAnchor {
+  path: string;
+  line?: number;
+  lineType?: "ADDED" | "REMOVED" | "CONTEXT";
+  fileType?: "FROM" | "TO";
+}
+
+interface ServerComment {
+  id: number;
+  version: number;
+  text: string;
+  author: ServerUser;
+  createdDate: number;
+  anchor?: ServerAnchor;
+  /** Replies, nested */
+  comments?: ServerComment[];
+}
+
+interface ServerActivity {
+  action: string;
+  commentAction?: string;
+  comment?: ServerComment;
+  commentAnchor?: ServerAnchor;
+}
+
+interface ServerParticipant {
+  user: ServerUser;
+  role: "AUTHOR" | "REVIEWER" | "PARTICIPANT";
+  approved: boolean;
+  status: "APPROVED" | "NEEDS_WORK" | "UNAPPROVED";
+}
+
+interface ServerPullRequest {
+  id: number;
+  version: number;
+  title: string;
+  description?: string;
+  state: string;
+  fromRef: { displayId: string };
+  toRef: { displayId: string };
+  author: ServerParticipant;
+  reviewers?: ServerParticipant[];
+  participants?: ServerParticipant[];
+}
+
+/**
+ * Bitbucket Server / Data Center API client
+ * `workspace` is the project key, authentication uses a personal access token
+ */
+export class BitbucketServerClient extends ApiClient implements BitbucketProvider {
+  private config: Config;
+  private serverUrl: string;
+  private currentUser: ServerUser | null = null;
+
+  constructor(config: Config) {
+    const serverUrl = config.serverUrl.replace(/\/+$/, "");
+    super(`${serverUrl}/rest/api/1.0`, config.bitbucketToken);
+    this.config = config;
+    this.serverUrl = serverUrl;
+  }
+
+  /** Path of the repository under the REST API root */
+  private get repoPath(): string {
+    return `/projects/${this.config.workspace}/repos/${this.config.repoSlug}`;
+  }
+
+  /**
+   * Collect every item of a paginated list endpoint
+   */
+  async listAll<T>(path: string): Promise<T[]> {
+    const items: T[] = [];
+    let start: number | undefined = 0;
+
+    for (let pages = 0; start !== undefined; pages++) {
+      if (pages >= MAX_PAGES) {
+        logger.warn(`Stopped after ${MAX_PAGES} pages of ${path} - results are incomplete`);
+        break;
+      }
+
+      const separator = path.includes("?") ? "&" : "?";
+      const page: ServerPage<T> | null = await this.request<ServerPage<T>>(
+        "GET",
+        `${path}${separator}limit=${PAGE_LIMIT}&start=${start}`
+      );
+      if (!page) break;
+
+      items.push(...(page.values || []));
+      start = page.isLastPage ? undefined : page.nextPageStart;
+    }
+
+    return items;
+  }
+
+  /**
+   * Get pull request details
+   */
+  async getPullRequest(prId: number): Promise<PullRequest | null> {
+    const pr = await this.request<ServerPullRequest>(
+      "GET",
+      `${this.repoPath}/pull-requests/${prId}`
+    );
+    return pr ? toPullRequest(pr) : null;
+  }
+
+  /**
+   * Update the PR description
+   * Data Center requires the PR's current version and title
+   */
+  async updatePullRequest(
+    prId: number,
+    update: { description: string }
+  ): Promise<PullRequest | null> {
+    if (!this.authHeader) {
+      logger.warn("No auth token - cannot update PR");
+      return null;
+    }
+
+    const path = `${this.repoPath}/pull-requests/${prId}`;
+    const current = await this.request<ServerPullRequest>("GET", path);
+    if (!current) return null;
+
+    const updated = await this.request<ServerPullRequest>("PUT", path, {
+      version: current.version,
+      title: current.title,
+      description: update.description,
+    });
+    return updated ? toPullRequest(updated) : null;
+  }
+
+  /**
+   * Get all comments on a PR, oldest first
+   * Data Center only lists comments through the activity feed, with replies nested.
+   * A reply also has an activity of its own, without its parent - the nested copy wins.
+   */
+  async getComments(prId: number): Promise<PRComment[]> {
+    const activities = await this.listAll<ServerActivity>(
+      `${this.repoPath}/pull-requests/${prId}/activities`
+    );
+
+    const byId = new Map<number, PRComment>();
+    for (const activity of activities) {
+      if (activity.action !== "COMMENTED" || activity.commentAction !== "ADDED") continue;
+      if (!activity.comment) continue;
+
+      const anchor = activity.commentAnchor ?? activity.comment.anchor;
+      for (const comment of flattenThread(activity.comment, anchor)) {
+        if (!byId.get(comment.id)?.parent) byId.set(comment.id, comment);
+      }
+    }
+
+    return [...byId.values()].sort((a, b) => a.created_on.localeCompare(b.created_on));
+  }
+
+  /**
+   * Get the user the token authenticates as
+   * Data Center has no "current user" REST resource, so ask the whoami servlet
+   */
+  async getCurrentUser(): Promise<BitbucketUser | null> {
+    const user = await this.resolveCurrentUser();
+    return user ? { uuid: user.name, display_name: user.displayName } : null;
+  }
+
+  /**
+   * Post a comment to the PR (top-level)
+   */
+  async postComment(prId: number, content: string): Promise<PRComment | null> {
+    if (!this.authHeader) {
+      logger.warn("No auth token - cannot post comment");
+      return null;
+    }
+
+    return this.createComment(prId, { text: content });
+  }
+
+  /**
+   * Post an inline comment on a line of the new version of a file
+   * The anchor must say whether the line was added or is context - try added first
+   */
+  async postInlineComment(
+    prId: number,
+    content: string,
+    filePath: string,
+    line: number
+  ): Promise<PRComment | null> {
+    if (!this.authHeader) {
+      logger.warn("No auth token - cannot post inline comment");
+      return null;
+    }
+
+    const anchor = { path: filePath, line, fileType: "TO", diffType: "EFFECTIVE" };
+
+    const added = await this.createComment(prId, {
+      text: content,
+      anchor: { ...anchor, lineType: "ADDED" },
+    });
+    if (added || this.lastError?.kind !== "client") return added;
+
+    return this.createComment(prId, { text: content, anchor: { ...anchor, lineType: "CONTEXT" } });
+  }
+
+  /**
+   * Reply to an existing comment
+   */
+  async replyToComment(prId: number, parentId: number, content: string): Promise<PRComment | null> {
+    if (!this.authHeader) {
+      logger.warn("No auth token - cannot reply to comment");
+      return null;
+    }
+
+    const reply = await this.createComment(prId, { text: content, parent: { id: parentId } });
+    return reply ? { ...reply, parent: { id: parentId } } : null;
+  }
+
+  /**
+   * Update the content of an existing comment
+   * Data Center requires the comment's current version
+   */
+  async updateComment(prId: number, commentId: number, content: string): Promise<PRComment | null> {
+    if (!this.authHeader) {
+      logger.warn("No auth token - cannot update comment");
+      return null;
+    }
+
+    const path = `${this.repoPath}/pull-requests/${prId}/comments/${commentId}`;
+    const current = await this.request<ServerComment>("GET", path);
+    if (!current) return null;
+
+    const updated = await this.request<ServerComment>("PUT", path, {
+      text: content,
+      version: current.version,
+    });
+    return updated ? toComment(updated, current.anchor) : null;
+  }
+
+  /**
+   * Delete a comment
+   */
+  async deleteComment(prId: number, commentId: number): Promise<boolean> {
+    if (!this.authHeader) {
+      logger.warn("No auth token - cannot delete comment");
+      return false;
+    }
+
+    const path = `${this.repoPath}/pull-requests/${prId}/comments/${commentId}`;
+    const current = await this.request<ServerComment>("GET", path);
+    if (!current) return false;
+
+    // DELETE returns 204 with no body, so check the status rather than the payload
+    const result = await this.send("DELETE", `${path}?version=${current.version}`);
+    return result.ok;
+  }
+
+  /**
+   * Approve the PR as the token's user
+   */
+  async approve(prId: number): Promise<boolean> {
+    return this.setParticipantStatus(prId, "APPROVED");
+  }
+
+  /**
+   * Withdraw our approval of the PR
+   */
+  async unapprove(prId: number): Promise<boolean> {
+    return this.setParticipantStatus(prId, "UNAPPROVED");
+  }
+
+  /**
+   * Mark the PR as "needs work" as the token's user
+   */
+  async requestChanges(prId: number): Promise<boolean> {
+    return this.setParticipantStatus(prId, "NEEDS_WORK");
+  }
+
+  /**
+   * Withdraw our "needs work" status on the PR
+   */
+  async removeChangeRequest(prId: number): Promise<boolean> {
+    return this.setParticipantStatus(prId, "UNAPPROVED");
+  }
+
+  /**
+   * Create or update a build status on a commit
+   */
+  async setBuildStatus(commitSha: string, status: BuildStatus): Promise<boolean> {
+    if (!this.authHeader) {
+      logger.warn("No auth token - cannot set build status");
+      return false;
+    }
+
+    // Returns 204 with no body
+    const result = await this.send("POST", `${this.repoPath}/commits/${commitSha}/builds`, status);
+    return result.ok;
+  }
+
+  /**
+   * Create (or replace) a Code Insights report on a commit, clearing its old annotations
+   */
+  async createReport(
+    commitSha: string,
+    reportId: string,
+    report: InsightsReport
+  ): Promise<boolean> {
+    if (!this.authHeader) {
+      logger.warn("No auth token - cannot create report");
+      return false;
+    }
+
+    const path = this.reportPath(commitSha, reportId);
+
+    // Data Center reports only pass or fail - a pending report has no result
+    const result =
+      report.result === "PASSED" ? "PASS" : report.result === "FAILED" ? "FAIL" : undefined;
+    const created = await this.send("PUT", path, {
+      title: report.title,
+      details: report.details,
+      reporter: report.reporter,
+      link: report.link,
+      result,
+      data: report.data,
+    });
+    if (!created.ok) return false;
+
+    const cleared = await this.send("DELETE", `${path}/annotations`);
+    return cleared.ok;
+  }
+
+  /**
+   * Upload annotations to a report
+   */
+  async addAnnotations(
+    commitSha: string,
+    reportId: string,
+    annotations: InsightsAnnotation[]
+  ): Promise<boolean> {
+    if (!this.authHeader) {
+      logger.warn("No auth token - cannot add annotations");
+      return false;
+    }
+
+    if (annotations.length === 0) return true;
+
+    const result = await this.send("POST", `${this.reportPath(commitSha, reportId)}/annotations`, {
+      annotations: annotations.map((a) => ({
+        externalId: a.external_id,
+        type: a.annotation_type,
+        message: a.details ? `${a.summary}\n\n${a.details}` : a.summary,
+        path: a.path,
+        line: a.line,
+        // Data Center has no CRITICAL severity
+        severity: a.severity === "CRITICAL" ? "HIGH" : a.severity,
+      })),
+    });
+    return result.ok;
+  }
+
+  /**
+   * Web URL of a pull request (or one of its comments)
+   */
+  pullRequestUrl(prId: number, commentId?: number): string {
+    const url = `${this.serverUrl}/projects/${this.config.workspace}/repos/${this.config.repoSlug}/pull-requests/${prId}/overview`;
+    return commentId ? `${url}?commentId=${commentId}` : url;
+  }
+
+  // Helper: create a comment and convert the response
+  private async createComment(prId: number, body: object): Promise<PRComment | null> {
+    const comment = await this.request<ServerComment>(
+      "POST",
+      `${this.repoPath}/pull-requests/${prId}/comments`,
+      body
+    );
+    return comment ? toComment(comment, comment.anchor) : null;
+  }
+
+  // Helper: set our review status - participants are addressed by user slug
+  private async setParticipantStatus(
+    prId: number,
+    status: ServerParticipant["status"]
+  ): Promise<boolean> {
+    if (!this.authHeader) {
+      logger.warn(`No auth token - cannot set PR status to ${status}`);
+      return false;
+    }
+
+    const user = await this.resolveCurrentUser();
+    if (!user) return false;
+
+    const result = await this.send(
+      "PUT",
+      `${this.repoPath}/pull-requests/${prId}/participants/${encodeURIComponent(user.slug)}`,
+      { user: { name: user.name }, approved: status === "APPROVED", status }
+    );
+    return result.ok;
+  }
+
+  // Helper: look up (once) the user the token authenticates as
+  private async resolveCurrentUser(): Promise<ServerUser | null> {
+    if (!this.authHeader) return null;
+    if (this.currentUser) return this.currentUser;
+
+    const whoami = await this.send("GET", `${this.serverUrl}/plugins/servlet/applinks/whoami`);
+    const name = whoami.ok ? whoami.text.trim() : "";
+    if (!name) return null;
+
+    // The whoami servlet only gives the username - fetch the slug and display name
+    const users = await this.request<ServerPage<ServerUser>>(
+      "GET",
+      `/users?filter=${encodeURIComponent(name)}`
+    );
+    this.currentUser = users?.values.find((u) => u.name === name) ?? {
+      name,
+      slug: name,
+      displayName: name,
+    };
+    return this.currentUser;
+  }
+
+  // Helper: Code Insights lives under its own REST root
+  private reportPath(commitSha: string, reportId: string): string {
+    return `${this.serverUrl}/rest/insights/1.0${this.repoPath}/commits/${commitSha}/reports/${reportId}`;
+  }
+}
+
+// Helper: convert a pull request
+function toPullRequest(pr: ServerPullRequest): PullRequest {
+  return {
+    id: pr.id,
+    title: pr.title,
+    description: pr.description ?? "",
+    source: { branch: { name: pr.fromRef.displayId } },
+    destination: { branch: { name: pr.toRef.displayId } },
+    author: { display_name: pr.author.user.displayName },
+    state: pr.state,
+    participants: [...(pr.reviewers ?? []), ...(pr.participants ?? [])].map(toParticipant),
+  };
+}
+
+// Helper: convert a reviewer/participant ("needs work" is Cloud's "changes requested")
+function toParticipant(participant: ServerParticipant): PRParticipant {
+  return {
+    user: { display_name: participant.user.displayName, uuid: participant.user.name },
+    role: participant.role === "REVIEWER" ? "REVIEWER" : "PARTICIPANT",
+    approved: participant.approved,
+    state:
+      participant.status === "APPROVED"
+        ? "approved"
+        : participant.status === "NEEDS_WORK"
+          ? "changes_requested"
+          : null,
+  };
+}
+
+// Helper: convert a comment; replies inherit the thread's anchor like they do on Cloud
+function toComment(comment: ServerComment, anchor?: ServerAnchor, parentId?: number): PRComment {
+  const line = anchor?.line ?? null;
+
+  return {
+    id: comment.id,
+    content: { raw: comment.text },
+    inline: anchor
+      ? {
+          path: anchor.path,
+          from: anchor.fileType === "FROM" ? line : null,
+          to: anchor.fileType === "FROM" ? null : line,
+        }
+      : undefined,
+    user: { display_name: comment.author.displayName, uuid: comment.author.name },
+    parent: parentId !== undefined ? { id: parentId } : undefined,
+    created_on: new Date(comment.createdDate).toISOString(),
+  };
+}
+
+// Helper: flatten a comment and its nested replies
+function flattenThread(
+  comment: ServerComment,
+  anchor?: ServerAnchor,
+  parentId?: number
+): PRComment[] {
+  return [
+    toComment(comment, anchor, parentId),
+    ...(comment.comments ?? []).flatMap((reply) => flattenThread(reply, anchor, comment.id)),
+  ];
+}
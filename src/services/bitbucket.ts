@@ -1,126 +1,136 @@
 /**
- * Bitbucket API client using native fetch
+ * Bitbucket Cloud API client using native fetch
  * No external dependencies - just fetch!
  */
 
 import type { Config } from "../shared/config";
 import { logger } from "../utils/logger";
+import { ApiClient } from "./http";
+import type {
+  BitbucketProvider,
+  BitbucketUser,
+  BuildStatus,
+  InsightsAnnotation,
+  InsightsReport,
+  PRComment,
+  PullRequest,
+} from "./provider";
+
+export { describeApiError, type BitbucketApiError, type ApiErrorKind } from "./bitbucket-errors";
 
 const API_BASE = "https://api.bitbucket.org/2.0";
 
+/** Default page size for list endpoints (Bitbucket's maximum for most of them) */
+const DEFAULT_PAGELEN = 100;
+
+/** Safety cap on pages fetched from a single list endpoint */
+const MAX_PAGES = 50;
+
+/** Code Insights accepts at most this many annotations per request */
+const ANNOTATIONS_PER_REQUEST = 100;
+
+/**
+ * Paginated list response from Bitbucket API
+ */
+interface Page<T> {
+  values: T[];
+  next?: string;
+  pagelen?: number;
+  size?: number;
+}
+
+/**
+ * Options for paginated list requests
+ */
+export interface PaginateOptions {
+  pagelen?: number;
+  maxPages?: number;
+  /** Extra query parameters (e.g. state, q, sort) */
+  query?: Record<string, string>;
+}
+
 /**
- * Comment from Bitbucket API
+ * Task on a pull request
  */
-export interface PRComment {
+export interface PRTask {
   id: number;
   content: {
     raw: string;
   };
-  inline?: {
-    path: string;
-    from: number | null;
-    to: number | null;
-  };
-  user: {
-    display_name: string;
-    uuid: string;
+  state: "RESOLVED" | "UNRESOLVED";
+  comment?: {
+    id: number;
   };
   created_on: string;
 }
 
 /**
- * Pull Request from Bitbucket API
+ * Commit on a pull request
  */
-export interface PullRequest {
-  id: number;
-  title: string;
-  description: string;
-  source: {
-    branch: { name: string };
-  };
-  destination: {
-    branch: { name: string };
-  };
+export interface PRCommit {
+  hash: string;
+  message: string;
+  date: string;
   author: {
-    display_name: string;
+    raw: string;
   };
-  state: string;
 }
 
 /**
- * Bitbucket API client
+ * Activity log entry on a pull request (update, approval, changes_request or comment)
  */
-export class BitbucketClient {
+export interface PRActivity {
+  update?: { state: string; date: string; author?: { display_name: string } };
+  approval?: { date: string; user: { display_name: string; uuid: string } };
+  changes_request?: { date: string; user: { display_name: string; uuid: string } };
+  comment?: PRComment;
+}
+
+/**
+ * Bitbucket Cloud API client
+ */
+export class BitbucketClient extends ApiClient implements BitbucketProvider {
   private config: Config;
-  private authHeader: string;
 
   constructor(config: Config) {
+    super(config.apiUrl.replace(/\/+$/, "") || API_BASE, config.bitbucketToken);
     this.config = config;
-
-    // Build auth header from token
-    // Bitbucket API tokens (ATCTT3x...) use Bearer auth
-    // Legacy app passwords use Basic auth (username:password)
-    if (config.bitbucketToken) {
-      const token = config.bitbucketToken.trim();
-
-      if (token.startsWith("ATCTT") || token.startsWith("ATBB") || token.startsWith("ATATT")) {
-        // New Bitbucket API token format - use Bearer
-        this.authHeader = `Bearer ${token}`;
-        logger.debug("Auth: Bitbucket API token (Bearer)");
-      } else if (token.includes(":")) {
-        // Legacy format: username:app_password or x-token-auth:token
-        const base64 = Buffer.from(token).toString("base64");
-        this.authHeader = `Basic ${base64}`;
-        logger.debug("Auth: Basic auth (username:password)");
-      } else {
-        // Unknown format - try Bearer
-        this.authHeader = `Bearer ${token}`;
-        logger.debug("Auth: Unknown token format, trying Bearer");
-      }
-    } else {
-      this.authHeader = "";
-      logger.debug("Auth: No token provided");
-    }
   }
 
   /**
-   * Make authenticated request to Bitbucket API
+   * Iterate over every item of a paginated list endpoint, following `next` links
    */
-  private async request<T>(method: string, path: string, body?: object): Promise<T | null> {
-    const url = `${API_BASE}${path}`;
-
-    const headers: Record<string, string> = {
-      "Content-Type": "application/json",
-    };
-
-    if (this.authHeader) {
-      headers["Authorization"] = this.authHeader;
-    }
-
-    try {
-      logger.debug(`${method} ${url}`);
+  async *paginate<T>(path: string, options: PaginateOptions = {}): AsyncGenerator<T> {
+    const { pagelen = DEFAULT_PAGELEN, maxPages = MAX_PAGES, query = {} } = options;
 
-      const response = await fetch(url, {
-        method,
-        headers,
-        body: body ? JSON.stringify(body) : undefined,
-      });
+    const params = new URLSearchParams({ ...query, pagelen: String(pagelen) });
+    let next: string | undefined = `${path}${path.includes("?") ? "&" : "?"}${params}`;
+    let pages = 0;
 
-      if (!response.ok) {
-        const errorText = await response.text();
-        logger.error(`API error (${response.status}): ${errorText}`);
-        return null;
+    while (next) {
+      if (pages >= maxPages) {
+        logger.warn(`Stopped after ${maxPages} pages of ${path} - results are incomplete`);
+        return;
       }
 
-      // Handle empty responses
-      const text = await response.text();
-      if (!text) return null;
+      const page: Page<T> | null = await this.request<Page<T>>("GET", next);
+      if (!page) return;
+      pages++;
 
-      return JSON.parse(text) as T;
-    } catch (error) {
-      logger.error("Request failed:", error);
-      return null;
+      yield* page.values || [];
+      next = page.next;
+    }
+  }
+
+  /**
+   * Collect every item of a paginated list endpoint
+   */
+  async listAll<T>(path: string, options: PaginateOptions = {}): Promise<T[]> {
+    const items: T[] = [];
+    for await (const item of this.paginate<T>(path, options)) {
+      items.push(item);
     }
+    return items;
   }
 
   /**
@@ -131,31 +141,31 @@ export class BitbucketClient {
     return this.request<PullRequest>("GET", path);
   }
 
+  /**
+   * Update pull request fields (only those given are changed)
+   */
+  async updatePullRequest(
+    prId: number,
+    update: { description: string }
+  ): Promise<PullRequest | null> {
+    if (!this.authHeader) {
+      logger.warn("No auth token - cannot update PR");
+      return null;
+    }
+
+    const path = `/repositories/${this.config.workspace}/${this.config.repoSlug}/pullrequests/${prId}`;
+    return this.request<PullRequest>("PUT", path, update);
+  }
+
   /**
    * Get pull request diff
    */
   async getPullRequestDiff(prId: number): Promise<string> {
     const path = `/repositories/${this.config.workspace}/${this.config.repoSlug}/pullrequests/${prId}/diff`;
-    const url = `${API_BASE}${path}`;
-
-    try {
-      const headers: Record<string, string> = {};
-      if (this.authHeader) {
-        headers["Authorization"] = this.authHeader;
-      }
-
-      const response = await fetch(url, { headers });
 
-      if (!response.ok) {
-        logger.error(`Failed to get diff: ${response.status}`);
-        return "";
-      }
-
-      return await response.text();
-    } catch (error) {
-      logger.error("Failed to get diff:", error);
-      return "";
-    }
+    // The diff endpoint returns plain text, not JSON
+    const result = await this.send("GET", path);
+    return result.ok ? result.text : "";
   }
 
   /**
@@ -163,14 +173,39 @@ export class BitbucketClient {
    */
   async getComments(prId: number): Promise<PRComment[]> {
     const path = `/repositories/${this.config.workspace}/${this.config.repoSlug}/pullrequests/${prId}/comments`;
+    return this.listAll<PRComment>(path);
+  }
 
-    interface CommentsResponse {
-      values: PRComment[];
-      next?: string;
-    }
+  /**
+   * List pull requests in the repository (OPEN by default)
+   */
+  async getPullRequests(state = "OPEN"): Promise<PullRequest[]> {
+    const path = `/repositories/${this.config.workspace}/${this.config.repoSlug}/pullrequests`;
+    return this.listAll<PullRequest>(path, { pagelen: 50, query: { state } });
+  }
 
-    const response = await this.request<CommentsResponse>("GET", path);
-    return response?.values || [];
+  /**
+   * Get all tasks on a PR
+   */
+  async getTasks(prId: number): Promise<PRTask[]> {
+    const path = `/repositories/${this.config.workspace}/${this.config.repoSlug}/pullrequests/${prId}/tasks`;
+    return this.listAll<PRTask>(path);
+  }
+
+  /**
+   * Get the activity log of a PR
+   */
+  async getActivity(prId: number): Promise<PRActivity[]> {
+    const path = `/repositories/${this.config.workspace}/${this.config.repoSlug}/pullrequests/${prId}/activity`;
+    return this.listAll<PRActivity>(path, { pagelen: 50 });
+  }
+
+  /**
+   * Get the commits of a PR (newest first)
+   */
+  async getCommits(prId: number): Promise<PRCommit[]> {
+    const path = `/repositories/${this.config.workspace}/${this.config.repoSlug}/pullrequests/${prId}/commits`;
+    return this.listAll<PRCommit>(path);
   }
 
   /**
@@ -230,4 +265,160 @@ export class BitbucketClient {
       parent: { id: parentId },
     });
   }
+
+  /**
+   * Update the content of an existing comment
+   */
+  async updateComment(prId: number, commentId: number, content: string): Promise<PRComment | null> {
+    if (!this.authHeader) {
+      logger.warn("No auth token - cannot update comment");
+      return null;
+    }
+
+    const path = `/repositories/${this.config.workspace}/${this.config.repoSlug}/pullrequests/${prId}/comments/${commentId}`;
+
+    return this.request<PRComment>("PUT", path, {
+      content: { raw: content },
+    });
+  }
+
+  /**
+   * Delete a comment
+   * Returns true if the comment was deleted
+   */
+  async deleteComment(prId: number, commentId: number): Promise<boolean> {
+    if (!this.authHeader) {
+      logger.warn("No auth token - cannot delete comment");
+      return false;
+    }
+
+    const path = `/repositories/${this.config.workspace}/${this.config.repoSlug}/pullrequests/${prId}/comments/${commentId}`;
+
+    // DELETE returns 204 with no body, so check the status rather than the payload
+    const result = await this.send("DELETE", path);
+    return result.ok;
+  }
+
+  /**
+   * Approve the PR as the token's user
+   */
+  async approve(prId: number): Promise<boolean> {
+    return this.setParticipantState(prId, "POST", "approve");
+  }
+
+  /**
+   * Withdraw our approval of the PR
+   */
+  async unapprove(prId: number): Promise<boolean> {
+    return this.setParticipantState(prId, "DELETE", "approve");
+  }
+
+  /**
+   * Request changes on the PR as the token's user
+   */
+  async requestChanges(prId: number): Promise<boolean> {
+    return this.setParticipantState(prId, "POST", "request-changes");
+  }
+
+  /**
+   * Withdraw our request for changes on the PR
+   */
+  async removeChangeRequest(prId: number): Promise<boolean> {
+    return this.setParticipantState(prId, "DELETE", "request-changes");
+  }
+
+  // Helper: approve / request-changes endpoints share the same shape
+  private async setParticipantState(
+    prId: number,
+    method: "POST" | "DELETE",
+    action: "approve" | "request-changes"
+  ): Promise<boolean> {
+    if (!this.authHeader) {
+      logger.warn(`No auth token - cannot ${method === "POST" ? "" : "withdraw "}${action}`);
+      return false;
+    }
+
+    const path = `/repositories/${this.config.workspace}/${this.config.repoSlug}/pullrequests/${prId}/${action}`;
+
+    // DELETE returns 204 with no body, so check the status rather than the payload
+    const result = await this.send(method, path);
+    return result.ok;
+  }
+
+  /**
+   * Create or update a build status on a commit
+   */
+  async setBuildStatus(commitSha: string, status: BuildStatus): Promise<boolean> {
+    if (!this.authHeader) {
+      logger.warn("No auth token - cannot set build status");
+      return false;
+    }
+
+    const path = `/repositories/${this.config.workspace}/${this.config.repoSlug}/commit/${commitSha}/statuses/build`;
+
+    const result = await this.send("POST", path, status);
+    return result.ok;
+  }
+
+  /**
+   * Create (or replace) a Code Insights report on a commit
+   * Replacing a report also removes its existing annotations
+   */
+  async createReport(
+    commitSha: string,
+    reportId: string,
+    report: InsightsReport
+  ): Promise<boolean> {
+    if (!this.authHeader) {
+      logger.warn("No auth token - cannot create report");
+      return false;
+    }
+
+    const path = `/repositories/${this.config.workspace}/${this.config.repoSlug}/commit/${commitSha}/reports/${reportId}`;
+
+    const result = await this.send("PUT", path, report);
+    return result.ok;
+  }
+
+  /**
+   * Upload annotations to a report, in chunks the API accepts
+   * Returns false if any chunk failed - see `lastError` for why
+   */
+  async addAnnotations(
+    commitSha: string,
+    reportId: string,
+    annotations: InsightsAnnotation[]
+  ): Promise<boolean> {
+    if (!this.authHeader) {
+      logger.warn("No auth token - cannot add annotations");
+      return false;
+    }
+
+    const path = `/repositories/${this.config.workspace}/${this.config.repoSlug}/commit/${commitSha}/reports/${reportId}/annotations`;
+
+    for (let i = 0; i < annotations.length; i += ANNOTATIONS_PER_REQUEST) {
+      const chunk = annotations.slice(i, i + ANNOTATIONS_PER_REQUEST);
+      const result = await this.send("POST", path, chunk);
+      if (!result.ok) return false;
+    }
+
+    return true;
+  }
+
+  /**
+   * Get the user the token authenticates as (used to recognize our own comments)
+   * Returns null for tokens without an associated user (e.g. some access tokens)
+   */
+  async getCurrentUser(): Promise<BitbucketUser | null> {
+    if (!this.authHeader) return null;
+    return this.request<BitbucketUser>("GET", "/user");
+  }
+
+  /**
+   * Web URL of a pull request (or one of its comments)
+   */
+  pullRequestUrl(prId: number, commentId?: number): string {
+    const url = `https://bitbucket.org/${this.config.workspace}/${this.config.repoSlug}/pull-requests/${prId}`;
+    return commentId ? `${url}#comment-${commentId}` : url;
+  }
 }
@@ -4,8 +4,9 @@
  */
 
 import { spawn } from "child_process";
-import type { Config } from "../shared/config";
+import { configSecrets, type Config } from "../shared/config";
 import { logger } from "../utils/logger";
+import { recordUsage } from "./usage-ledger";
 
 export interface ClaudeUsage {
   inputTokens: number;
@@ -63,13 +64,11 @@ export async function runClaude(
 
   logger.debug("Claude args:", args.join(" "));
 
-  return new Promise((resolve) => {
+  const startedAt = Date.now();
+  const result = await new Promise<ClaudeResult>((resolve) => {
     // Spawn Claude process
     const child = spawn("claude", args, {
-      env: {
-        ...process.env,
-        ANTHROPIC_API_KEY: config.anthropicApiKey,
-      },
+      env: claudeEnv(config),
       cwd: process.env.BITBUCKET_CLONE_DIR || process.cwd(),
       stdio: ["pipe", "pipe", "pipe"],
     });
@@ -126,6 +125,9 @@ export async function runClaude(
       });
     });
   });
+
+  recordUsage(config, result, Date.now() - startedAt);
+  return result;
 }
 
 /**
@@ -206,12 +208,10 @@ export async function runClaudeStreaming(
     args.push("--disallowed-tools", options.blockedTools.join(","));
   }
 
-  return new Promise((resolve) => {
+  const startedAt = Date.now();
+  const result = await new Promise<ClaudeResult>((resolve) => {
     const child = spawn("claude", args, {
-      env: {
-        ...process.env,
-        ANTHROPIC_API_KEY: config.anthropicApiKey,
-      },
+      env: claudeEnv(config),
       cwd: process.env.BITBUCKET_CLONE_DIR || process.cwd(),
       stdio: ["pipe", "pipe", "pipe"],
     });
@@ -279,4 +279,22 @@ export async function runClaudeStreaming(
       });
     });
   });
+
+  recordUsage(config, result, Date.now() - startedAt);
+  return result;
+}
+
+// Helper: environment for the Claude CLI - without the Bitbucket token, webhook secret
+// or git credentials (Claude may have Bash, and its output is posted to the PR)
+function claudeEnv(config: Config): NodeJS.ProcessEnv {
+  const secrets = configSecrets(config).filter(Boolean);
+  const env: NodeJS.ProcessEnv = {};
+
+  for (const [key, value] of Object.entries(process.env)) {
+    if (key.startsWith("GIT_CONFIG_")) continue;
+    if (value && secrets.some((secret) => value.includes(secret))) continue;
+    env[key] = value;
+  }
+
+  return { ...env, ANTHROPIC_API_KEY: config.anthropicApiKey };
 }
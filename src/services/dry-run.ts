@@ -0,0 +1,183 @@
+/**
+ * Dry-run provider
+ * Reads go to the real Bitbucket client; writes are recorded and printed instead of sent,
+ * so the modes can run end to end against a real PR without changing it.
+ */
+
+import { logger } from "../utils/logger";
+import { redact } from "../utils/redact";
+import type { BitbucketApiError } from "./bitbucket-errors";
+import type {
+  BitbucketProvider,
+  BitbucketUser,
+  BuildStatus,
+  InsightsAnnotation,
+  InsightsReport,
+  PRComment,
+  PullRequest,
+} from "./provider";
+
+/** A write that would have been sent to Bitbucket */
+export interface RecordedWrite {
+  operation: string;
+  /** Target and options of the call (PR, comment, commit...) */
+  params: Record<string, unknown>;
+  /** Body of the write: comment markdown, status, report or annotations */
+  payload?: unknown;
+}
+
+/** Author of the comments dry runs pretend to post, if the token's user is unknown */
+const DRY_RUN_USER: BitbucketUser = { uuid: "dry-run", display_name: "Dry run" };
+
+/**
+ * Provider that records writes instead of sending them
+ */
+export class DryRunProvider implements BitbucketProvider {
+  /** Every write, in order */
+  readonly writes: RecordedWrite[] = [];
+
+  lastError: BitbucketApiError | null = null;
+
+  /** Recorded comments get negative IDs, so they can't be mistaken for real ones */
+  private nextCommentId = -1;
+  private user: BitbucketUser | null = null;
+
+  constructor(private inner: BitbucketProvider) {}
+
+  // Reads
+
+  async getPullRequest(prId: number): Promise<PullRequest | null> {
+    return this.read(() => this.inner.getPullRequest(prId));
+  }
+
+  async getComments(prId: number): Promise<PRComment[]> {
+    return this.read(() => this.inner.getComments(prId));
+  }
+
+  async getCurrentUser(): Promise<BitbucketUser | null> {
+    this.user = await this.read(() => this.inner.getCurrentUser());
+    return this.user;
+  }
+
+  pullRequestUrl(prId: number, commentId?: number): string {
+    return this.inner.pullRequestUrl(prId, commentId);
+  }
+
+  // Writes
+
+  async updatePullRequest(
+    prId: number,
+    update: { description: string }
+  ): Promise<PullRequest | null> {
+    this.record("updatePullRequest", { prId }, update.description);
+    const pr = await this.read(() => this.inner.getPullRequest(prId));
+    return pr ? { ...pr, ...update } : null;
+  }
+
+  async postComment(prId: number, content: string): Promise<PRComment | null> {
+    this.record("postComment", { prId }, content);
+    return this.comment(this.nextCommentId--, content);
+  }
+
+  async postInlineComment(
+    prId: number,
+    content: string,
+    path: string,
+    line: number
+  ): Promise<PRComment | null> {
+    this.record("postInlineComment", { prId, path, line }, content);
+    return {
+      ...this.comment(this.nextCommentId--, content),
+      inline: { path, from: null, to: line },
+    };
+  }
+
+  async replyToComment(prId: number, parentId: number, content: string): Promise<PRComment | null> {
+    this.record("replyToComment", { prId, parentId }, content);
+    return { ...this.comment(this.nextCommentId--, content), parent: { id: parentId } };
+  }
+
+  async updateComment(prId: number, commentId: number, content: string): Promise<PRComment | null> {
+    this.record("updateComment", { prId, commentId }, content);
+    return this.comment(commentId, content);
+  }
+
+  async deleteComment(prId: number, commentId: number): Promise<boolean> {
+    this.record("deleteComment", { prId, commentId });
+    return true;
+  }
+
+  async approve(prId: number): Promise<boolean> {
+    this.record("approve", { prId });
+    return true;
+  }
+
+  async unapprove(prId: number): Promise<boolean> {
+    this.record("unapprove", { prId });
+    return true;
+  }
+
+  async requestChanges(prId: number): Promise<boolean> {
+    this.record("requestChanges", { prId });
+    return true;
+  }
+
+  async removeChangeRequest(prId: number): Promise<boolean> {
+    this.record("removeChangeRequest", { prId });
+    return true;
+  }
+
+  async setBuildStatus(commitSha: string, status: BuildStatus): Promise<boolean> {
+    this.record("setBuildStatus", { commitSha }, status);
+    return true;
+  }
+
+  async createReport(
+    commitSha: string,
+    reportId: string,
+    report: InsightsReport
+  ): Promise<boolean> {
+    this.record("createReport", { commitSha, reportId }, report);
+    return true;
+  }
+
+  async addAnnotations(
+    commitSha: string,
+    reportId: string,
+    annotations: InsightsAnnotation[]
+  ): Promise<boolean> {
+    this.record("addAnnotations", { commitSha, reportId }, annotations);
+    return true;
+  }
+
+  // Helper: pass a read through, keeping its error
+  private async read<T>(call: () => Promise<T>): Promise<T> {
+    const result = await call();
+    this.lastError = this.inner.lastError;
+    return result;
+  }
+
+  // Helper: store and print a write
+  // (payloads are redacted, as the real clients do before sending)
+  private record(operation: string, params: Record<string, unknown>, body?: unknown): void {
+    const payload =
+      typeof body === "string" ? redact(body) : body && JSON.parse(redact(JSON.stringify(body)));
+    this.writes.push({ operation, params, payload });
+    this.lastError = null;
+
+    logger.info(`[dry run] ${operation} ${JSON.stringify(params)}`);
+    if (payload !== undefined) {
+      console.log(typeof payload === "string" ? payload : JSON.stringify(payload, null, 2));
+    }
+  }
+
+  // Helper: the comment Bitbucket would have returned
+  private comment(id: number, content: string): PRComment {
+    return {
+      id,
+      content: { raw: content },
+      user: this.user ?? DRY_RUN_USER,
+      created_on: new Date().toISOString(),
+    };
+  }
+}
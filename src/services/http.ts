@@ -0,0 +1,184 @@
+/**
+ * HTTP transport shared by the Bitbucket Cloud and Data Center clients
+ * Authentication, timeouts, retries and error classification - no external dependencies
+ */
+
+import { logger } from "../utils/logger";
+import { redact } from "../utils/redact";
+import { errorFromResponse, isRetryable, type BitbucketApiError } from "./bitbucket-errors";
+
+/** Abort requests that take longer than this */
+const REQUEST_TIMEOUT_MS = 30_000;
+
+/** Retries after the first attempt for retryable failures */
+const MAX_RETRIES = 3;
+
+/** Base delay for exponential backoff (doubles each retry, plus jitter) */
+const RETRY_BASE_MS = 1_000;
+
+/** Never wait longer than this between retries, whatever Retry-After says */
+const MAX_RETRY_DELAY_MS = 60_000;
+
+/** Outcome of a raw HTTP call */
+export type SendResult = { ok: true; text: string } | { ok: false; error: BitbucketApiError };
+
+/**
+ * Base class for Bitbucket API clients
+ */
+export abstract class ApiClient {
+  protected authHeader: string;
+
+  /** Error from the most recent failed request (null if it succeeded) */
+  lastError: BitbucketApiError | null = null;
+
+  constructor(
+    /** Prefix for relative request paths */
+    protected apiBase: string,
+    token: string
+  ) {
+    this.authHeader = buildAuthHeader(token);
+  }
+
+  /**
+   * Make authenticated request to the API
+   * Returns null on failure - see `lastError` for why
+   */
+  protected async request<T>(method: string, path: string, body?: object): Promise<T | null> {
+    const result = await this.send(method, path, body);
+    if (!result.ok) return null;
+
+    // Handle empty responses
+    if (!result.text) return null;
+
+    try {
+      return JSON.parse(result.text) as T;
+    } catch (error) {
+      logger.error("Invalid JSON from Bitbucket:", error);
+      this.lastError = { kind: "server", message: "Invalid JSON response" };
+      return null;
+    }
+  }
+
+  /**
+   * Send an HTTP request with timeout, retrying rate limits and transient failures
+   */
+  protected async send(method: string, path: string, body?: object): Promise<SendResult> {
+    // `next` links from paginated responses are already absolute
+    const url = path.startsWith("http") ? path : `${this.apiBase}${path}`;
+
+    const headers: Record<string, string> = {
+      "Content-Type": "application/json",
+    };
+
+    if (this.authHeader) {
+      headers["Authorization"] = this.authHeader;
+    }
+
+    this.lastError = null;
+
+    for (let attempt = 0; ; attempt++) {
+      const result = await this.sendOnce(method, url, headers, body);
+      if (result.ok) return result;
+
+      const { error } = result;
+      if (attempt >= MAX_RETRIES || !isRetryable(error, method)) {
+        logger.error(`API error (${error.status ?? error.kind}): ${error.message}`);
+        this.lastError = error;
+        return result;
+      }
+
+      const delay = retryDelay(attempt, error.retryAfter);
+      logger.warn(
+        `${method} ${url} failed (${error.status ?? error.kind}), retrying in ${Math.round(delay / 1000)}s...`
+      );
+      await new Promise((resolve) => setTimeout(resolve, delay));
+    }
+  }
+
+  // Helper: a single HTTP attempt, with the network and timeout failures classified
+  private async sendOnce(
+    method: string,
+    url: string,
+    headers: Record<string, string>,
+    body?: object
+  ): Promise<SendResult> {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS);
+
+    try {
+      logger.debug(`${method} ${url}`);
+
+      const response = await fetch(url, {
+        method,
+        headers,
+        body: body ? redact(JSON.stringify(body)) : undefined,
+        signal: controller.signal,
+      });
+
+      const text = await response.text();
+
+      if (!response.ok) {
+        return {
+          ok: false,
+          error: errorFromResponse(response.status, text, response.headers.get("Retry-After")),
+        };
+      }
+
+      return { ok: true, text };
+    } catch (error) {
+      if (controller.signal.aborted) {
+        return {
+          ok: false,
+          error: { kind: "timeout", message: `No response after ${REQUEST_TIMEOUT_MS}ms` },
+        };
+      }
+      return {
+        ok: false,
+        error: { kind: "network", message: error instanceof Error ? error.message : String(error) },
+      };
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+}
+
+/**
+ * Build the Authorization header from a token
+ * Bitbucket API tokens and Data Center personal access tokens use Bearer auth,
+ * legacy app passwords and username:password use Basic auth
+ */
+export function buildAuthHeader(token: string): string {
+  if (!token) {
+    logger.debug("Auth: No token provided");
+    return "";
+  }
+
+  const trimmed = token.trim();
+
+  if (trimmed.startsWith("ATCTT") || trimmed.startsWith("ATBB") || trimmed.startsWith("ATATT")) {
+    // New Bitbucket API token format - use Bearer
+    logger.debug("Auth: Bitbucket API token (Bearer)");
+    return `Bearer ${trimmed}`;
+  }
+
+  if (trimmed.includes(":")) {
+    // Legacy format: username:app_password or x-token-auth:token
+    logger.debug("Auth: Basic auth (username:password)");
+    return `Basic ${Buffer.from(trimmed).toString("base64")}`;
+  }
+
+  // Unknown format (e.g. a Data Center personal access token) - try Bearer
+  logger.debug("Auth: Bearer token");
+  return `Bearer ${trimmed}`;
+}
+
+// Helper: exponential backoff with jitter, honoring Retry-After when given
+function retryDelay(attempt: number, retryAfter?: number): number {
+  if (retryAfter !== undefined) {
+    return Math.min(retryAfter * 1000, MAX_RETRY_DELAY_MS);
+  }
+
+  const backoff = RETRY_BASE_MS * 2 ** attempt;
+  const jitter = Math.random() * backoff * 0.5;
+  return Math.min(backoff + jitter, MAX_RETRY_DELAY_MS);
+}
@@ -0,0 +1,209 @@
+/**
+ * Job queue for webhook-triggered mode runs
+ *
+ * - At most `concurrency` jobs run at once, and never two for the same PR
+ * - A new review job replaces queued reviews of the same PR, and cancels a running
+ *   one for an older head commit; a review of the commit already being reviewed is dropped
+ * - Every state change is appended to a JSONL log, so jobs that were queued or running
+ *   when the process stopped are picked up again by `restore`
+ */
+
+import { randomUUID } from "crypto";
+import { appendFileSync, existsSync, mkdirSync, readFileSync, writeFileSync } from "fs";
+import { dirname } from "path";
+import { logger } from "../utils/logger";
+import type { WebhookJob } from "./webhook";
+
+export type JobStatus = "queued" | "running" | "succeeded" | "failed" | "cancelled";
+
+/** A job and where it is in its lifecycle */
+export interface QueuedJob {
+  id: string;
+  /** One PR - jobs with the same key never run concurrently */
+  key: string;
+  job: WebhookJob;
+  status: JobStatus;
+  /** Why the job was cancelled */
+  reason?: string;
+}
+
+/** One line of the job log */
+interface JobLogEntry {
+  at: string;
+  id: string;
+  status: JobStatus;
+  reason?: string;
+  job: WebhookJob;
+}
+
+/** Runs a job; resolves true on success. The signal aborts when the job is superseded */
+export type JobRunner = (job: WebhookJob, signal: AbortSignal) => Promise<boolean>;
+
+export interface JobQueueOptions {
+  concurrency: number;
+  run: JobRunner;
+  /** JSONL file recording every state change (not persisted if unset) */
+  logPath?: string;
+}
+
+/**
+ * Job queue with per-PR serialization and review coalescing
+ */
+export class JobQueue {
+  private queued: QueuedJob[] = [];
+  private running = new Map<string, { entry: QueuedJob; controller: AbortController }>();
+  private idleWaiters: Array<() => void> = [];
+
+  constructor(private options: JobQueueOptions) {}
+
+  /**
+   * Add a job - returns null if it duplicates the review already running
+   */
+  enqueue(job: WebhookJob): QueuedJob | null {
+    const key = prKey(job);
+
+    if (job.mode === "review") {
+      const active = this.running.get(key)?.entry;
+      if (active?.job.mode === "review" && job.headSha && active.job.headSha === job.headSha) {
+        logger.info(`${key}: review of ${job.headSha} is already running`);
+        return null;
+      }
+
+      for (const entry of this.queued.filter((e) => e.key === key && e.job.mode === "review")) {
+        this.cancel(entry, "superseded by a newer push");
+      }
+
+      if (active?.job.mode === "review") {
+        logger.info(`${key}: cancelling the running review of ${active.job.headSha ?? "HEAD"}`);
+        this.running.get(key)!.controller.abort();
+        this.setStatus(active, "cancelled", "superseded by a newer push");
+      }
+    }
+
+    const entry: QueuedJob = { id: randomUUID(), key, job, status: "queued" };
+    this.queued.push(entry);
+    this.log(entry);
+    this.pump();
+    return entry;
+  }
+
+  /**
+   * Re-queue the jobs the log shows as unfinished, and compact the log
+   * Returns the number of jobs restored
+   */
+  restore(): number {
+    const { logPath } = this.options;
+    if (!logPath || !existsSync(logPath)) return 0;
+
+    const latest = new Map<string, JobLogEntry>();
+    for (const line of readFileSync(logPath, "utf-8").split("\n")) {
+      if (!line.trim()) continue;
+      try {
+        const entry = JSON.parse(line) as JobLogEntry;
+        latest.set(entry.id, entry);
+      } catch {
+        logger.warn(`Skipping unreadable job log line: ${line}`);
+      }
+    }
+
+    const pending = [...latest.values()].filter(
+      (e) => e.status === "queued" || e.status === "running"
+    );
+    writeFileSync(logPath, "");
+    for (const entry of pending) {
+      this.enqueue(entry.job);
+    }
+
+    if (pending.length > 0) logger.info(`Restored ${pending.length} unfinished job(s)`);
+    return pending.length;
+  }
+
+  /** Jobs waiting to run, in order */
+  pending(): QueuedJob[] {
+    return [...this.queued];
+  }
+
+  /** Jobs currently running */
+  active(): QueuedJob[] {
+    return [...this.running.values()].map((r) => r.entry);
+  }
+
+  /**
+   * Resolve once nothing is queued or running
+   */
+  idle(): Promise<void> {
+    if (this.queued.length === 0 && this.running.size === 0) return Promise.resolve();
+    return new Promise((resolve) => this.idleWaiters.push(resolve));
+  }
+
+  // Helper: start queued jobs while there is capacity, skipping PRs that are busy
+  private pump(): void {
+    while (this.running.size < this.options.concurrency) {
+      const index = this.queued.findIndex((e) => !this.running.has(e.key));
+      if (index === -1) break;
+
+      const [entry] = this.queued.splice(index, 1);
+      this.start(entry!);
+    }
+
+    if (this.queued.length === 0 && this.running.size === 0) {
+      for (const resolve of this.idleWaiters.splice(0)) resolve();
+    }
+  }
+
+  private start(entry: QueuedJob): void {
+    const controller = new AbortController();
+    this.running.set(entry.key, { entry, controller });
+    this.setStatus(entry, "running");
+
+    this.options
+      .run(entry.job, controller.signal)
+      .catch((error) => {
+        logger.error(`Job ${entry.id} crashed:`, error);
+        return false;
+      })
+      .then((ok) => {
+        this.running.delete(entry.key);
+        if (entry.status === "running") this.setStatus(entry, ok ? "succeeded" : "failed");
+        this.pump();
+      });
+  }
+
+  // Helper: drop a queued job
+  private cancel(entry: QueuedJob, reason: string): void {
+    this.queued = this.queued.filter((e) => e !== entry);
+    this.setStatus(entry, "cancelled", reason);
+  }
+
+  private setStatus(entry: QueuedJob, status: JobStatus, reason?: string): void {
+    entry.status = status;
+    entry.reason = reason;
+    this.log(entry);
+  }
+
+  // Helper: append the job's current state to the log
+  private log(entry: QueuedJob): void {
+    const { logPath } = this.options;
+    if (!logPath) return;
+
+    const line: JobLogEntry = {
+      at: new Date().toISOString(),
+      id: entry.id,
+      status: entry.status,
+      reason: entry.reason,
+      job: entry.job,
+    };
+
+    try {
+      mkdirSync(dirname(logPath), { recursive: true });
+      appendFileSync(logPath, JSON.stringify(line) + "\n");
+    } catch (error) {
+      logger.warn(`Could not write the job log: ${error}`);
+    }
+  }
+}
+
+// Helper: key identifying the PR a job is for
+function prKey(job: WebhookJob): string {
+  return `${job.workspace}/${job.repoSlug}#${job.prId}`;
+}
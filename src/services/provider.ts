@@ -0,0 +1,176 @@
+/**
+ * Bitbucket provider abstraction
+ * Review and tag mode talk to this interface, so they work the same against
+ * Bitbucket Cloud and Bitbucket Server / Data Center.
+ *
+ * The shared types follow Bitbucket Cloud's field names; the Data Center client
+ * converts its responses into them.
+ */
+
+import type { Config } from "../shared/config";
+import { BitbucketClient } from "./bitbucket";
+import type { BitbucketApiError } from "./bitbucket-errors";
+import { BitbucketServerClient } from "./bitbucket-server";
+import { DryRunProvider } from "./dry-run";
+
+/** Code Insights accepts at most this many annotations per report */
+export const MAX_ANNOTATIONS_PER_REPORT = 1_000;
+
+/**
+ * Comment on a pull request
+ */
+export interface PRComment {
+  id: number;
+  content: {
+    raw: string;
+  };
+  inline?: {
+    path: string;
+    from: number | null;
+    to: number | null;
+  };
+  user: {
+    display_name: string;
+    /** Stable user ID (Cloud: UUID, Data Center: username) */
+    uuid: string;
+  };
+  parent?: {
+    id: number;
+  };
+  deleted?: boolean;
+  created_on: string;
+}
+
+/**
+ * Pull request
+ */
+export interface PullRequest {
+  id: number;
+  title: string;
+  description: string;
+  source: {
+    branch: { name: string };
+  };
+  destination: {
+    branch: { name: string };
+  };
+  author: {
+    display_name: string;
+  };
+  state: string;
+  participants?: PRParticipant[];
+}
+
+/**
+ * Reviewer or participant on a pull request, with their approval state
+ */
+export interface PRParticipant {
+  user: { display_name: string; uuid: string };
+  role: "PARTICIPANT" | "REVIEWER";
+  approved: boolean;
+  state: "approved" | "changes_requested" | null;
+}
+
+/**
+ * Authenticated user
+ */
+export interface BitbucketUser {
+  uuid: string;
+  display_name: string;
+}
+
+/**
+ * Code Insights report on a commit (shown in the PR "Reports" panel)
+ */
+export interface InsightsReport {
+  title: string;
+  details: string;
+  report_type: "SECURITY" | "COVERAGE" | "TEST" | "BUG";
+  reporter?: string;
+  result?: "PASSED" | "FAILED" | "PENDING";
+  link?: string;
+  data?: Array<{
+    title: string;
+    type: "BOOLEAN" | "DATE" | "DURATION" | "LINK" | "NUMBER" | "PERCENTAGE" | "TEXT";
+    value: boolean | number | string;
+  }>;
+}
+
+/**
+ * Code Insights annotation - a finding on a file/line of a report
+ */
+export interface InsightsAnnotation {
+  external_id: string;
+  annotation_type: "VULNERABILITY" | "CODE_SMELL" | "BUG";
+  summary: string;
+  details?: string;
+  path?: string;
+  line?: number;
+  severity?: "CRITICAL" | "HIGH" | "MEDIUM" | "LOW";
+  result?: "PASSED" | "FAILED" | "SKIPPED" | "IGNORED";
+}
+
+/**
+ * Build status on a commit (counted by the "minimum successful builds" merge check)
+ */
+export interface BuildStatus {
+  /** Identifies the status - posting the same key again updates it */
+  key: string;
+  state: "INPROGRESS" | "SUCCESSFUL" | "FAILED" | "STOPPED";
+  name?: string;
+  url: string;
+  description?: string;
+}
+
+/**
+ * Operations the modes need from Bitbucket
+ * Methods return null/false/[] on failure - see `lastError` for why
+ */
+export interface BitbucketProvider {
+  /** Error from the most recent failed request (null if it succeeded) */
+  lastError: BitbucketApiError | null;
+
+  getPullRequest(prId: number): Promise<PullRequest | null>;
+  /** Change the PR description - returns the updated PR */
+  updatePullRequest(prId: number, update: { description: string }): Promise<PullRequest | null>;
+  getComments(prId: number): Promise<PRComment[]>;
+  /** The user the token authenticates as (used to recognize our own comments) */
+  getCurrentUser(): Promise<BitbucketUser | null>;
+
+  postComment(prId: number, content: string): Promise<PRComment | null>;
+  postInlineComment(
+    prId: number,
+    content: string,
+    path: string,
+    line: number
+  ): Promise<PRComment | null>;
+  replyToComment(prId: number, parentId: number, content: string): Promise<PRComment | null>;
+  updateComment(prId: number, commentId: number, content: string): Promise<PRComment | null>;
+  deleteComment(prId: number, commentId: number): Promise<boolean>;
+
+  approve(prId: number): Promise<boolean>;
+  unapprove(prId: number): Promise<boolean>;
+  requestChanges(prId: number): Promise<boolean>;
+  removeChangeRequest(prId: number): Promise<boolean>;
+
+  setBuildStatus(commitSha: string, status: BuildStatus): Promise<boolean>;
+  createReport(commitSha: string, reportId: string, report: InsightsReport): Promise<boolean>;
+  addAnnotations(
+    commitSha: string,
+    reportId: string,
+    annotations: InsightsAnnotation[]
+  ): Promise<boolean>;
+
+  /** Web URL of a pull request (or one of its comments) */
+  pullRequestUrl(prId: number, commentId?: number): string;
+}
+
+/**
+ * Create the client for the configured Bitbucket flavour
+ * In dry-run mode it is wrapped so writes are recorded instead of sent
+ */
+export function createBitbucketProvider(config: Config): BitbucketProvider {
+  const client =
+    config.provider === "server" ? new BitbucketServerClient(config) : new BitbucketClient(config);
+  return config.dryRun ? new DryRunProvider(client) : client;
+}
@@ -0,0 +1,234 @@
+/**
+ * Usage ledger
+ * Appends every Claude call to a JSONL file, and aggregates it into reports
+ * (the console usage log is gone when the pipeline ends - the ledger is not)
+ */
+
+import { appendFileSync, existsSync, mkdirSync, readFileSync } from "fs";
+import { dirname } from "path";
+import type { Config } from "../shared/config";
+import { logger } from "../utils/logger";
+import type { ClaudeResult } from "./claude";
+
+/** One Claude call */
+export interface UsageEntry {
+  at: string;
+  workspace: string;
+  repo: string;
+  prId?: number;
+  mode: string;
+  model: string;
+  durationMs: number;
+  outcome: "success" | "failed";
+  inputTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+  costUsd?: number;
+}
+
+/** What usage reports can be grouped by */
+export const USAGE_DIMENSIONS = ["repo", "mode", "model", "month"] as const;
+export type UsageDimension = (typeof USAGE_DIMENSIONS)[number];
+
+export function isUsageDimension(value: string): value is UsageDimension {
+  return (USAGE_DIMENSIONS as readonly string[]).includes(value);
+}
+
+/** Totals for one group of calls */
+export interface UsageRow {
+  group: Partial<Record<UsageDimension, string>>;
+  calls: number;
+  failed: number;
+  inputTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+  costUsd: number;
+  durationMs: number;
+}
+
+/**
+ * Append a Claude call to the ledger (no-op when no ledger is configured)
+ * Write failures are logged, never fatal - the run itself succeeded
+ */
+export function recordUsage(config: Config, result: ClaudeResult, durationMs: number): void {
+  if (!config.usageLedger) return;
+
+  const entry: UsageEntry = {
+    at: new Date().toISOString(),
+    workspace: config.workspace,
+    repo: config.repoSlug,
+    prId: config.prId,
+    mode: config.mode,
+    model: config.model,
+    durationMs,
+    outcome: result.success ? "success" : "failed",
+    inputTokens: result.usage?.inputTokens ?? 0,
+    outputTokens: result.usage?.outputTokens ?? 0,
+    totalTokens: result.usage?.totalTokens ?? 0,
+    costUsd: result.usage?.costUsd,
+  };
+
+  try {
+    mkdirSync(dirname(config.usageLedger), { recursive: true });
+    appendFileSync(config.usageLedger, JSON.stringify(entry) + "\n");
+  } catch (error) {
+    logger.warn(`Could not write the usage ledger: ${error}`);
+  }
+}
+
+/**
+ * Read every entry in the ledger, skipping unreadable lines
+ */
+export function readUsageLedger(path: string): UsageEntry[] {
+  if (!existsSync(path)) return [];
+
+  const entries: UsageEntry[] = [];
+  for (const line of readFileSync(path, "utf-8").split("\n")) {
+    if (!line.trim()) continue;
+    try {
+      entries.push(JSON.parse(line) as UsageEntry);
+    } catch {
+      logger.warn(`Skipping unreadable usage ledger line: ${line}`);
+    }
+  }
+
+  return entries;
+}
+
+/**
+ * Total the entries per group, sorted by group
+ */
+export function aggregateUsage(entries: UsageEntry[], groupBy: UsageDimension[]): UsageRow[] {
+  const rows = new Map<string, UsageRow>();
+
+  for (const entry of entries) {
+    const group = Object.fromEntries(groupBy.map((d) => [d, dimensionValue(entry, d)]));
+    const key = JSON.stringify(group);
+    const row = rows.get(key) ?? { ...totalRow([]), group };
+
+    row.calls++;
+    if (entry.outcome === "failed") row.failed++;
+    row.inputTokens += entry.inputTokens;
+    row.outputTokens += entry.outputTokens;
+    row.totalTokens += entry.totalTokens;
+    row.costUsd += entry.costUsd ?? 0;
+    row.durationMs += entry.durationMs;
+    rows.set(key, row);
+  }
+
+  return [...rows.values()].sort((a, b) =>
+    groupBy
+      .map((d) => (a.group[d] ?? "").localeCompare(b.group[d] ?? ""))
+      .reduce((result, cmp) => result || cmp, 0)
+  );
+}
+
+/**
+ * Format usage rows as CSV (header first)
+ */
+export function formatUsageCsv(rows: UsageRow[], groupBy: UsageDimension[]): string {
+  const lines = [reportHeader(groupBy).join(",")];
+  for (const row of rows) {
+    lines.push(reportCells(row, groupBy).map(csvCell).join(","));
+  }
+  return lines.join("\n") + "\n";
+}
+
+/**
+ * Format usage rows as an aligned text table, with a total line
+ */
+export function formatUsageTable(rows: UsageRow[], groupBy: UsageDimension[]): string {
+  if (rows.length === 0) return "No usage recorded.\n";
+
+  const total = { ...totalRow(rows), group: { [groupBy[0] ?? "repo"]: "TOTAL" } };
+  const table = [
+    reportHeader(groupBy),
+    ...rows.map((row) => reportCells(row, groupBy)),
+    reportCells(total, groupBy),
+  ];
+  const widths = table[0]!.map((_, i) => Math.max(...table.map((cells) => cells[i]!.length)));
+
+  return (
+    table
+      .map((cells) =>
+        cells
+          .map((cell, i) => cell.padEnd(widths[i]!))
+          .join("  ")
+          .trimEnd()
+      )
+      .join("\n") + "\n"
+  );
+}
+
+// Helper: the value of one grouping dimension for an entry
+function dimensionValue(entry: UsageEntry, dimension: UsageDimension): string {
+  switch (dimension) {
+    case "repo":
+      return `${entry.workspace}/${entry.repo}`;
+    case "mode":
+      return entry.mode;
+    case "model":
+      return entry.model;
+    case "month":
+      return entry.at.substring(0, 7);
+  }
+}
+
+// Helper: report column names
+function reportHeader(groupBy: UsageDimension[]): string[] {
+  return [
+    ...groupBy,
+    "calls",
+    "failed",
+    "input_tokens",
+    "output_tokens",
+    "total_tokens",
+    "cost_usd",
+    "duration_s",
+  ];
+}
+
+// Helper: report cells for one row
+function reportCells(row: UsageRow, groupBy: UsageDimension[]): string[] {
+  return [
+    ...groupBy.map((d) => row.group[d] ?? ""),
+    String(row.calls),
+    String(row.failed),
+    String(row.inputTokens),
+    String(row.outputTokens),
+    String(row.totalTokens),
+    row.costUsd.toFixed(4),
+    (row.durationMs / 1000).toFixed(1),
+  ];
+}
+
+// Helper: sum of several rows
+function totalRow(rows: UsageRow[]): UsageRow {
+  return rows.reduce(
+    (total, row) => ({
+      group: total.group,
+      calls: total.calls + row.calls,
+      failed: total.failed + row.failed,
+      inputTokens: total.inputTokens + row.inputTokens,
+      outputTokens: total.outputTokens + row.outputTokens,
+      totalTokens: total.totalTokens + row.totalTokens,
+      costUsd: total.costUsd + row.costUsd,
+      durationMs: total.durationMs + row.durationMs,
+    }),
+    {
+      group: {},
+      calls: 0,
+      failed: 0,
+      inputTokens: 0,
+      outputTokens: 0,
+      totalTokens: 0,
+      costUsd: 0,
+      durationMs: 0,
+    }
+  );
+}
+
+// Helper: quote a CSV cell when needed
+function csvCell(value: string): string {
+  return /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
@@ -0,0 +1,97 @@
+/**
+ * Bitbucket Cloud webhooks
+ * Signature verification and turning event payloads into review/tag jobs
+ */
+
+import { createHmac, timingSafeEqual } from "crypto";
+import type { Mode } from "../shared/types";
+
+/** Webhook events the server acts on */
+export const WEBHOOK_EVENTS = [
+  "pullrequest:created",
+  "pullrequest:updated",
+  "pullrequest:comment_created",
+] as const;
+
+/** A mode run requested by a webhook */
+export interface WebhookJob {
+  mode: Mode;
+  workspace: string;
+  repoSlug: string;
+  prId: number;
+  sourceBranch: string;
+  destinationBranch: string;
+  /** Source commit when the event fired (abbreviated) - used to coalesce reviews */
+  headSha?: string;
+  /** HTTPS clone URL of the repository */
+  cloneUrl: string;
+}
+
+/** What to do with a webhook - a job, or the reason there is nothing to do */
+export type WebhookAction = { job: WebhookJob } | { ignored: string };
+
+/**
+ * Payload fields we read (Bitbucket Cloud pull request events)
+ */
+interface PullRequestPayload {
+  repository?: {
+    full_name?: string;
+    links?: { html?: { href?: string } };
+  };
+  pullrequest?: {
+    id?: number;
+    state?: string;
+    source?: { branch?: { name?: string }; commit?: { hash?: string } };
+    destination?: { branch?: { name?: string } };
+  };
+}
+
+/**
+ * Check the X-Hub-Signature header ("sha256=<hex HMAC of the body>")
+ */
+export function verifySignature(secret: string, body: string, header: string | null): boolean {
+  if (!secret || !header?.startsWith("sha256=")) return false;
+
+  const expected = createHmac("sha256", secret).update(body).digest();
+  const actual = Buffer.from(header.slice("sha256=".length), "hex");
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+/**
+ * Decide what a webhook asks for
+ * Every comment queues tag mode: the trigger phrase may be set in the repository's config
+ * file, so the run - which reads it - decides whether the comment asks for anything
+ */
+export function parseWebhook(eventKey: string, payload: unknown): WebhookAction {
+  if (!(WEBHOOK_EVENTS as readonly string[]).includes(eventKey)) {
+    return { ignored: `event ${eventKey || "(none)"} is not handled` };
+  }
+
+  const { repository, pullrequest } = (payload ?? {}) as PullRequestPayload;
+  const [workspace, repoSlug] = repository?.full_name?.split("/") ?? [];
+  const htmlUrl = repository?.links?.html?.href;
+  const sourceBranch = pullrequest?.source?.branch?.name;
+  const destinationBranch = pullrequest?.destination?.branch?.name;
+
+  if (!workspace || !repoSlug || !htmlUrl || !pullrequest?.id || !sourceBranch) {
+    return { ignored: "payload is missing the repository or pull request" };
+  }
+
+  if (pullrequest.state && pullrequest.state !== "OPEN") {
+    return { ignored: `pull request #${pullrequest.id} is ${pullrequest.state.toLowerCase()}` };
+  }
+
+  const isComment = eventKey === "pullrequest:comment_created";
+  return {
+    job: {
+      mode: isComment ? "tag" : "review",
+      workspace,
+      repoSlug,
+      prId: pullrequest.id,
+      sourceBranch,
+      destinationBranch: destinationBranch || "main",
+      headSha: pullrequest.source?.commit?.hash,
+      cloneUrl: `${htmlUrl.replace(/\/+$/, "")}.git`,
+    },
+  };
+}
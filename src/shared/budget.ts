@@ -0,0 +1,153 @@
+/**
+ * Cost budgets
+ * Estimates what Claude calls will cost and keeps runs within the configured limits
+ */
+
+import type { ClaudeUsage } from "../services/claude";
+import { ESTIMATED_OUTPUT_TOKENS, MODEL_PRICING } from "./constants";
+import type { CostBudget, Spend } from "./types";
+import { estimateTokens } from "./usage";
+
+/** Model picked for a set of calls, and whether it had to be downgraded to fit */
+export interface ModelChoice {
+  model: string;
+  downgraded: boolean;
+  /** Whether every call fits the budget with this model */
+  fits: boolean;
+  estimate: Spend;
+}
+
+/**
+ * Estimated USD cost of a call (undefined for models without known pricing)
+ */
+export function estimateCost(
+  model: string,
+  inputTokens: number,
+  outputTokens: number
+): number | undefined {
+  const family = Object.keys(MODEL_PRICING).find((name) => model.toLowerCase().includes(name));
+  if (!family) return undefined;
+
+  const price = MODEL_PRICING[family]!;
+  return (inputTokens * price.input + outputTokens * price.output) / 1_000_000;
+}
+
+/**
+ * Add up spend records
+ */
+export function addSpend(...spends: Array<Spend | null | undefined>): Spend {
+  return spends.reduce<Spend>(
+    (total, s) => ({ tokens: total.tokens + (s?.tokens ?? 0), usd: total.usd + (s?.usd ?? 0) }),
+    { tokens: 0, usd: 0 }
+  );
+}
+
+/**
+ * Tracks spending during a run against the run and PR budgets
+ */
+export class BudgetTracker {
+  private runSpent: Spend = { tokens: 0, usd: 0 };
+
+  constructor(
+    private budget: CostBudget,
+    /** Spent on the PR by earlier runs */
+    private prSpent: Spend = { tokens: 0, usd: 0 }
+  ) {}
+
+  /** Spent by this run so far */
+  get spent(): Spend {
+    return { ...this.runSpent };
+  }
+
+  /**
+   * What this run may still spend: the smaller of the run and PR allowances
+   */
+  remaining(): Spend {
+    const { runTokens, runUsd, prTokens, prUsd } = this.budget;
+    const prTotal = addSpend(this.prSpent, this.runSpent);
+
+    return {
+      tokens: Math.min(
+        runTokens ? runTokens - this.runSpent.tokens : Infinity,
+        prTokens ? prTokens - prTotal.tokens : Infinity
+      ),
+      usd: Math.min(
+        runUsd ? runUsd - this.runSpent.usd : Infinity,
+        prUsd ? prUsd - prTotal.usd : Infinity
+      ),
+    };
+  }
+
+  /**
+   * Estimate the cost of calls with the given prompts
+   */
+  estimate(model: string, prompts: string[]): Spend {
+    return addSpend(
+      ...prompts.map((prompt) => {
+        const input = estimateTokens(prompt);
+        return {
+          tokens: input + ESTIMATED_OUTPUT_TOKENS,
+          usd: estimateCost(model, input, ESTIMATED_OUTPUT_TOKENS) ?? 0,
+        };
+      })
+    );
+  }
+
+  /**
+   * Whether calls with the given prompts fit what is left
+   */
+  fits(model: string, prompts: string[]): boolean {
+    const estimate = this.estimate(model, prompts);
+    const remaining = this.remaining();
+    return estimate.tokens <= remaining.tokens && estimate.usd <= remaining.usd;
+  }
+
+  /**
+   * Pick the configured model if the calls fit, else the cheaper fallback
+   * When neither fits, the fallback is returned with `fits: false` - the caller reduces scope
+   */
+  chooseModel(model: string, fallbackModel: string, prompts: string[]): ModelChoice {
+    const candidates = [...new Set([model, fallbackModel].filter(Boolean))];
+
+    for (const candidate of candidates) {
+      if (this.fits(candidate, prompts)) {
+        return {
+          model: candidate,
+          downgraded: candidate !== model,
+          fits: true,
+          estimate: this.estimate(candidate, prompts),
+        };
+      }
+    }
+
+    const cheapest = candidates[candidates.length - 1]!;
+    return {
+      model: cheapest,
+      downgraded: cheapest !== model,
+      fits: false,
+      estimate: this.estimate(cheapest, prompts),
+    };
+  }
+
+  /**
+   * Record what a call actually used; returns that spend
+   * (cost is estimated from tokens when the CLI doesn't report it)
+   */
+  record(usage: ClaudeUsage | undefined, model: string): Spend {
+    if (!usage) return { tokens: 0, usd: 0 };
+
+    const spend: Spend = {
+      tokens: usage.totalTokens,
+      usd: usage.costUsd ?? estimateCost(model, usage.inputTokens, usage.outputTokens) ?? 0,
+    };
+    this.runSpent = addSpend(this.runSpent, spend);
+    return spend;
+  }
+}
+
+/**
+ * Describe a spend for humans, e.g. "~12,000 tokens / $0.0450"
+ */
+export function formatSpend(spend: Spend): string {
+  return `~${Math.round(spend.tokens).toLocaleString("en-US")} tokens / $${spend.usd.toFixed(4)}`;
+}
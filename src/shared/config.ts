@@ -1,13 +1,35 @@
 /**
  * Configuration module
- * Loads and validates environment variables
+ * Loads and validates environment variables, merged over the repository config file
  */
 
-import { isValidMode, type Mode } from "./index";
+import { tmpdir } from "os";
+import { join } from "path";
+import {
+  isValidMode,
+  isValidReviewCommentMode,
+  isValidSeverity,
+  isValidRequestChangesOn,
+  isValidProviderKind,
+  BLOCKED_WRITE_TOOLS,
+  READ_ONLY_TOOL_CHOICES,
+  TOOL_CONFIGS,
+  type CostBudget,
+  type Mode,
+  type ProviderKind,
+  type RequestChangesOn,
+  type ReviewCommentMode,
+  type Severity,
+  type ToolConfig,
+} from "./index";
+import type { RepoConfig } from "./repo-config";
 
 export interface Config {
   // Bitbucket settings
-  workspace: string;
+  provider: ProviderKind; // cloud (default) or server (Data Center)
+  serverUrl: string; // Data Center base URL, e.g. https://bitbucket.example.com
+  apiUrl: string; // Cloud API base URL override (default: https://api.bitbucket.org/2.0)
+  workspace: string; // project key on Data Center
   repoSlug: string;
   prId: number | undefined;
   destinationBranch: string;
@@ -17,24 +39,71 @@ export interface Config {
   anthropicApiKey: string;
 
   // Mode settings
-  mode: Mode; // review = auto-review, tag = @claude mentions
+  mode: Mode; // review = auto-review, tag = @claude mentions, describe = PR description
   triggerPhrase: string; // default: @claude
+  reviewCommentMode: ReviewCommentMode; // edit | replace | append (default: edit)
+
+  // Review behaviour
+  ignorePaths: string[]; // glob patterns excluded from review
+  includePaths: string[]; // if set, only matching files are reviewed
+  useDefaultExcludes: boolean; // skip lockfiles, vendored and generated files (default: true)
+  severityThreshold: Severity; // findings below this are dropped (default: minor)
+  reviewInstructions: string; // extra instructions appended to the review prompt
+  codeInsights: boolean; // also publish findings as a Code Insights report (default: false)
+  buildStatus: boolean; // report the review as a commit build status (default: false)
+  requestChangesOn: RequestChangesOn; // request changes on findings this severe (default: never)
+  approveWhenClean: boolean; // approve the PR when there are no findings (default: false)
+  tools: {
+    readOnly: ToolConfig; // review mode and informational requests
+    fullAccess: ToolConfig; // actionable requests
+  };
+
+  // Webhook server
+  webhookSecret: string; // shared secret Bitbucket signs webhook payloads with
+  webhookPort: number; // default: 8080
+  workDir: string; // where PRs are checked out (default: <tmp>/claude-bitbucket-review)
+  maxConcurrentJobs: number; // jobs the webhook server runs at once (default: 2)
+  jobLog: string; // JSONL log of webhook jobs, to resume them after a restart (default: <workDir>/jobs.jsonl)
+
+  // Cost
+  budget: CostBudget; // per-run and per-PR token / USD limits (0 = no limit)
+  fallbackModel: string; // cheaper model used when the estimate exceeds the budget (default: haiku)
+  usageLedger: string; // JSONL file every Claude call is appended to, "" to disable (default: <workDir>/usage.jsonl)
 
   // Optional
   model: string;
   maxTurns: number;
   verbose: boolean;
+  dryRun: boolean; // read from Bitbucket but record writes instead of sending them (default: false)
 }
 
 /**
  * Load configuration from environment variables
+ * Values from the repository config file apply where the env var is not set
  */
-export function loadConfig(): Config {
+export function loadConfig(file: RepoConfig = {}): Config {
+  const serverUrl = env("BITBUCKET_SERVER_URL", "");
+  const workDir = env("WORK_DIR", join(tmpdir(), "claude-bitbucket-review"));
+  const providerValue = env("BITBUCKET_PROVIDER", serverUrl ? "server" : "cloud");
+  const provider: ProviderKind = isValidProviderKind(providerValue) ? providerValue : "cloud";
   const modeValue = env("MODE", "review");
   const mode: Mode = isValidMode(modeValue) ? modeValue : "review";
+  const commentModeValue = env("REVIEW_COMMENT_MODE", file.reviewCommentMode ?? "edit");
+  const reviewCommentMode: ReviewCommentMode = isValidReviewCommentMode(commentModeValue)
+    ? commentModeValue
+    : "edit";
+  const thresholdValue = env("SEVERITY_THRESHOLD", file.severityThreshold ?? "minor");
+  const severityThreshold: Severity = isValidSeverity(thresholdValue) ? thresholdValue : "minor";
+  const requestChangesValue = env("REQUEST_CHANGES_ON", file.requestChangesOn ?? "never");
+  const requestChangesOn: RequestChangesOn = isValidRequestChangesOn(requestChangesValue)
+    ? requestChangesValue
+    : "never";
 
   return {
     // Bitbucket (from pipeline environment)
+    provider,
+    serverUrl,
+    apiUrl: env("BITBUCKET_API_URL", ""),
     workspace: env("BITBUCKET_WORKSPACE"),
     repoSlug: env("BITBUCKET_REPO_SLUG"),
     prId: optionalInt("BITBUCKET_PR_ID"),
@@ -46,12 +115,49 @@ export function loadConfig(): Config {
 
     // Mode (validated)
     mode,
-    triggerPhrase: env("TRIGGER_PHRASE", "@claude"),
+    triggerPhrase: env("TRIGGER_PHRASE", file.triggerPhrase ?? "@claude"),
+    reviewCommentMode,
+
+    // Review behaviour
+    ignorePaths: listEnv("IGNORE_PATHS") ?? file.ignorePaths ?? [],
+    includePaths: listEnv("INCLUDE_PATHS") ?? file.includePaths ?? [],
+    useDefaultExcludes:
+      env("USE_DEFAULT_EXCLUDES", String(file.useDefaultExcludes ?? true)) !== "false",
+    severityThreshold,
+    reviewInstructions: env("REVIEW_INSTRUCTIONS", file.reviewInstructions ?? ""),
+    codeInsights: env("CODE_INSIGHTS", String(file.codeInsights ?? false)) === "true",
+    buildStatus: env("BUILD_STATUS", String(file.buildStatus ?? false)) === "true",
+    requestChangesOn,
+    approveWhenClean: env("APPROVE_WHEN_CLEAN", String(file.approveWhenClean ?? false)) === "true",
+    tools: {
+      readOnly: readOnlyTools(file.tools?.readOnly),
+      fullAccess: file.tools?.fullAccess
+        ? { allowedTools: file.tools.fullAccess, blockedTools: [] }
+        : TOOL_CONFIGS.fullAccess,
+    },
+
+    // Webhook server
+    webhookSecret: env("WEBHOOK_SECRET", ""),
+    webhookPort: parseInt(env("WEBHOOK_PORT", "8080")),
+    workDir,
+    maxConcurrentJobs: parseInt(env("MAX_CONCURRENT_JOBS", "2")),
+    jobLog: env("JOB_LOG", join(workDir, "jobs.jsonl")),
+
+    // Cost
+    budget: {
+      runTokens: parseFloat(env("MAX_RUN_TOKENS", "0")),
+      runUsd: parseFloat(env("MAX_RUN_COST_USD", "0")),
+      prTokens: parseFloat(env("MAX_PR_TOKENS", "0")),
+      prUsd: parseFloat(env("MAX_PR_COST_USD", "0")),
+    },
+    fallbackModel: env("FALLBACK_MODEL", "haiku"),
+    usageLedger: env("USAGE_LEDGER", join(workDir, "usage.jsonl")),
 
     // Optional settings
-    model: env("MODEL", "haiku"),
-    maxTurns: parseInt(env("MAX_TURNS", "30")),
+    model: env("MODEL", file.model ?? "haiku"),
+    maxTurns: parseInt(env("MAX_TURNS", String(file.maxTurns ?? 30))),
     verbose: env("VERBOSE", "false") === "true",
+    dryRun: env("DRY_RUN", "false") === "true",
   };
 }
 
@@ -69,10 +175,16 @@ export function validateConfig(config: Config): string[] {
     errors.push("BITBUCKET_REPO_SLUG is required");
   }
 
+  if (config.provider === "server" && !config.serverUrl) {
+    errors.push("BITBUCKET_SERVER_URL is required for Bitbucket Server / Data Center");
+  }
+
   if (!config.anthropicApiKey) {
     errors.push("ANTHROPIC_API_KEY is required");
   }
 
+  errors.push(...validateBudget(config.budget));
+
   // Warning (not error) if no Bitbucket token
   if (!config.bitbucketToken) {
     errors.push("[WARN] BITBUCKET_ACCESS_TOKEN not set - cannot post comments to PR");
@@ -81,6 +193,100 @@ export function validateConfig(config: Config): string[] {
   return errors;
 }
 
+/**
+ * The resolved config as indented JSON, with credentials masked (for `config check`)
+ */
+export function formatResolvedConfig(config: Config): string {
+  const mask = (value: string) => (value ? "[REDACTED]" : "");
+  return JSON.stringify(
+    {
+      ...config,
+      bitbucketToken: mask(config.bitbucketToken),
+      anthropicApiKey: mask(config.anthropicApiKey),
+      webhookSecret: mask(config.webhookSecret),
+    },
+    // Keep unset values (e.g. no PR ID) visible
+    (_, value: unknown) => (value === undefined ? null : value),
+    2
+  );
+}
+
+/**
+ * Secret values in the config - always masked by the redaction in `utils/redact`
+ */
+export function configSecrets(config: Config): string[] {
+  // A username:app_password token is masked whole, and its password on its own - and
+  // base64-encoded, as it appears in the Basic auth header git is given
+  const [, password] = config.bitbucketToken.split(/:(.*)/);
+  const encoded = password ? Buffer.from(config.bitbucketToken.trim()).toString("base64") : "";
+  return [
+    config.bitbucketToken,
+    password ?? "",
+    encoded,
+    config.anthropicApiKey,
+    config.webhookSecret,
+  ];
+}
+
+/**
+ * Validate config for the webhook server
+ * Repository and PR come from each webhook, so only credentials are required up front
+ */
+export function validateServerConfig(config: Config): string[] {
+  const errors: string[] = [];
+
+  if (config.provider !== "cloud") {
+    errors.push("The webhook server only supports Bitbucket Cloud");
+  }
+
+  if (!config.anthropicApiKey) {
+    errors.push("ANTHROPIC_API_KEY is required");
+  }
+
+  if (!config.bitbucketToken) {
+    errors.push("BITBUCKET_ACCESS_TOKEN is required to check out PRs and post results");
+  }
+
+  if (!config.webhookSecret) {
+    errors.push("WEBHOOK_SECRET is required to verify webhook signatures");
+  }
+
+  if (!Number.isInteger(config.webhookPort) || config.webhookPort <= 0) {
+    errors.push("WEBHOOK_PORT must be a positive integer");
+  }
+
+  if (!Number.isInteger(config.maxConcurrentJobs) || config.maxConcurrentJobs <= 0) {
+    errors.push("MAX_CONCURRENT_JOBS must be a positive integer");
+  }
+
+  return errors;
+}
+
+// Helper: budget limits must be non-negative numbers (0 = no limit)
+function validateBudget(budget: CostBudget): string[] {
+  const names: Record<keyof CostBudget, string> = {
+    runTokens: "MAX_RUN_TOKENS",
+    runUsd: "MAX_RUN_COST_USD",
+    prTokens: "MAX_PR_TOKENS",
+    prUsd: "MAX_PR_COST_USD",
+  };
+
+  return (Object.keys(names) as Array<keyof CostBudget>)
+    .filter((key) => !Number.isFinite(budget[key]) || budget[key] < 0)
+    .map((key) => `${names[key]} must be a non-negative number`);
+}
+
+// Helper: read-only tool set - the repo may narrow it, but never beyond the read-only tools
+function readOnlyTools(allowed: string[] | undefined): ToolConfig {
+  if (!allowed) return TOOL_CONFIGS.readOnly;
+
+  const choices: readonly string[] = READ_ONLY_TOOL_CHOICES;
+  return {
+    allowedTools: allowed.filter((tool) => choices.includes(tool.replace(/\(.*\)$/, ""))),
+    blockedTools: [...BLOCKED_WRITE_TOOLS],
+  };
+}
+
 // Helper: get env var with optional default
 function env(key: string, defaultValue?: string): string {
   const value = process.env[key];
@@ -100,3 +306,13 @@ function optionalInt(key: string): number | undefined {
   const parsed = parseInt(value, 10);
   return isNaN(parsed) ? undefined : parsed;
 }
+
+// Helper: get optional comma-separated list env var
+function listEnv(key: string): string[] | undefined {
+  const value = process.env[key];
+  if (!value) return undefined;
+  return value
+    .split(",")
+    .map((item) => item.trim())
+    .filter(Boolean);
+}
@@ -2,8 +2,112 @@
  * Shared constants used across the application
  */
 
-/** Maximum diff size in characters to send to Claude */
-export const MAX_DIFF_SIZE = 30_000;
+import type { TagCommandName } from "./types";
+
+/** Approximate characters per token, used to estimate prompt size */
+export const CHARS_PER_TOKEN = 4;
+
+/** Output tokens assumed per Claude call when estimating cost up front */
+export const ESTIMATED_OUTPUT_TOKENS = 2_000;
+
+/**
+ * USD per million tokens, by model family (matched against the model name)
+ * Used to estimate cost before a call - actual cost comes from the CLI
+ */
+export const MODEL_PRICING: Record<string, { input: number; output: number }> = {
+  haiku: { input: 1, output: 5 },
+  sonnet: { input: 3, output: 15 },
+  opus: { input: 15, output: 75 },
+};
+
+/** Token budget for the diff in a single review call - larger diffs are reviewed in batches */
+export const MAX_BATCH_TOKENS = 7_500;
+
+/** Maximum number of review batches per run - files beyond this are skipped */
+export const MAX_REVIEW_BATCHES = 10;
+
+/**
+ * Files left out of review by default, grouped by the reason shown in the review
+ * Disable with `useDefaultExcludes: false` (or USE_DEFAULT_EXCLUDES=false)
+ */
+export const DEFAULT_EXCLUDES: Record<string, string[]> = {
+  lockfile: [
+    "**/bun.lock",
+    "**/bun.lockb",
+    "**/package-lock.json",
+    "**/npm-shrinkwrap.json",
+    "**/yarn.lock",
+    "**/pnpm-lock.yaml",
+    "**/composer.lock",
+    "**/Gemfile.lock",
+    "**/Cargo.lock",
+    "**/poetry.lock",
+    "**/Pipfile.lock",
+    "**/go.sum",
+  ],
+  "vendored code": ["**/node_modules/**", "**/vendor/**", "**/third_party/**"],
+  "generated file": [
+    "**/dist/**",
+    "**/build/**",
+    "**/*.min.js",
+    "**/*.min.css",
+    "**/*.map",
+    "**/*.snap",
+    "**/__snapshots__/**",
+    "**/*.pb.go",
+    "**/*.generated.*",
+  ],
+};
+
+/** Added lines longer than this mark a file as minified/generated */
+export const MAX_REVIEWABLE_LINE_LENGTH = 1_000;
+
+/** File types bundlers emit minified - only these are checked for very long lines */
+export const MINIFIABLE_EXTENSIONS = [".js", ".mjs", ".cjs", ".css"];
+
+/** Severity ordering - lower is more severe */
+export const SEVERITY_RANK = {
+  critical: 0,
+  important: 1,
+  minor: 2,
+} as const;
+
+/** Badge shown for each review finding severity */
+export const SEVERITY_BADGES = {
+  critical: "🔴 Critical",
+  important: "🟡 Important",
+  minor: "🟢 Minor",
+} as const;
+
+/** Code Insights report ID - reruns on the same commit replace the report */
+export const INSIGHTS_REPORT_ID = "claude-review";
+
+/** Build status key - each commit carries one review status, updated as the review runs */
+export const BUILD_STATUS_KEY = "claude-review";
+
+/** Process exit codes, one per failure category */
+export const EXIT_CODES = {
+  success: 0,
+  /** The mode ran but failed (Bitbucket or Claude error) */
+  runFailed: 1,
+  /** Bad command line */
+  usage: 2,
+  /** Missing or invalid configuration */
+  config: 3,
+  /** Claude CLI not installed and could not be installed */
+  claudeUnavailable: 4,
+  /** Unexpected exception */
+  fatal: 5,
+} as const;
+
+/** Token budget for the comment thread transcript included in tag prompts */
+export const MAX_THREAD_TOKENS = 3_000;
+
+/** Git identity used for commits made on behalf of @claude requests */
+export const COMMIT_AUTHOR = {
+  name: "Claude",
+  email: "claude-bot@users.noreply.bitbucket.org",
+} as const;
 
 /** Patterns that indicate an actionable request (code changes needed) */
 export const ACTIONABLE_PATTERNS = [
@@ -19,17 +123,92 @@ export const INFORMATIONAL_PATTERNS = [
   /\?$/, // Ends with question mark
 ];
 
+/**
+ * Credential formats masked in logs, prompts and comments (and flagged when a diff adds one)
+ * Patterns must be global - they are used with `replace` and `matchAll`
+ */
+export const SECRET_PATTERNS: Array<{ label: string; pattern: RegExp }> = [
+  { label: "AWS access key", pattern: /\b(?:AKIA|ASIA)[0-9A-Z]{16}\b/g },
+  {
+    label: "AWS secret key",
+    pattern: /(?<=aws_secret_access_key["']?\s*[:=]\s*["']?)[A-Za-z0-9/+=]{40}\b/gi,
+  },
+  {
+    label: "private key",
+    pattern: /-----BEGIN [A-Z ]*PRIVATE KEY-----(?:[\s\S]*?-----END [A-Z ]*PRIVATE KEY-----)?/g,
+  },
+  { label: "Anthropic API key", pattern: /\bsk-ant-[A-Za-z0-9_-]{20,}/g },
+  { label: "Bitbucket token", pattern: /\bAT(?:BB|CTT|ATT)[A-Za-z0-9_=.-]{20,}/g },
+  { label: "JWT", pattern: /\beyJ[A-Za-z0-9_-]{5,}\.eyJ[A-Za-z0-9_-]{5,}\.[A-Za-z0-9_-]{10,}/g },
+];
+
+/**
+ * Slash commands in trigger comments: arguments, what each does, and the tools it gets
+ * ("none" - answered without Claude)
+ */
+export const TAG_COMMANDS: Record<
+  TagCommandName,
+  { args: string; summary: string; access: "readOnly" | "fullAccess" | "none" }
+> = {
+  review: {
+    args: "[path[:lines]] [focus]",
+    summary: "Review the PR changes, or one file",
+    access: "readOnly",
+  },
+  explain: {
+    args: "[path[:lines]] [question]",
+    summary: "Explain how code works",
+    access: "readOnly",
+  },
+  fix: {
+    args: "[path[:lines]] <problem>",
+    summary: "Fix a problem and push the change",
+    access: "fullAccess",
+  },
+  tests: {
+    args: "[path[:lines]] [notes]",
+    summary: "Write or update tests and push them",
+    access: "fullAccess",
+  },
+  summarize: { args: "", summary: "Summarize what the PR changes", access: "readOnly" },
+  help: { args: "", summary: "List these commands", access: "none" },
+};
+
 /** Read-only tools for informational requests */
 export const READ_ONLY_TOOLS = ["Read", "Grep", "Glob"] as const;
 
+/** Tools a repository config file may put in the read-only tool set */
+export const READ_ONLY_TOOL_CHOICES = [...READ_ONLY_TOOLS, "LS"] as const;
+
 /** Tools to block for read-only mode */
 export const BLOCKED_WRITE_TOOLS = ["Write", "Edit", "MultiEdit", "Bash"] as const;
 
 /** Full access tools for actionable requests */
 export const FULL_ACCESS_TOOLS = ["Read", "Edit", "Write", "Grep", "Glob", "Bash"] as const;
 
+/** Claude CLI tools that may be named in a repository config file */
+export const KNOWN_TOOLS = [
+  "Read",
+  "Edit",
+  "MultiEdit",
+  "Write",
+  "Grep",
+  "Glob",
+  "LS",
+  "Bash",
+  "WebFetch",
+  "WebSearch",
+  "NotebookEdit",
+  "TodoWrite",
+];
+
 /** Tool configurations for different access levels */
-export const TOOL_CONFIGS = {
+export interface ToolConfig {
+  allowedTools: string[];
+  blockedTools: string[];
+}
+
+export const TOOL_CONFIGS: { readOnly: ToolConfig; fullAccess: ToolConfig } = {
   readOnly: {
     allowedTools: [...READ_ONLY_TOOLS] as string[],
     blockedTools: [...BLOCKED_WRITE_TOOLS] as string[],
@@ -4,4 +4,6 @@
 
 export * from "./constants";
 export * from "./usage";
+export * from "./budget";
 export * from "./types";
+export * from "./repo-config";
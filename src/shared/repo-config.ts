@@ -0,0 +1,251 @@
+/**
+ * Per-repository configuration file
+ * Reads `.claude-review.yml` (or `.yaml` / `.json`) from the repository root on the PR's
+ * destination branch - the PR under review can't configure its own reviewer
+ *
+ * Precedence (highest first): environment variables > config file > built-in defaults
+ */
+
+import { readDestinationFile } from "../utils/git";
+import { KNOWN_TOOLS, READ_ONLY_TOOL_CHOICES } from "./constants";
+import {
+  isValidRequestChangesOn,
+  isValidReviewCommentMode,
+  isValidSeverity,
+  type RequestChangesOn,
+  type ReviewCommentMode,
+  type Severity,
+} from "./types";
+
+/** Config file names, in lookup order */
+export const REPO_CONFIG_FILES = [
+  ".claude-review.yml",
+  ".claude-review.yaml",
+  ".claude-review.json",
+];
+
+/** Settings a repository can override */
+export interface RepoConfig {
+  model?: string;
+  maxTurns?: number;
+  triggerPhrase?: string;
+  ignorePaths?: string[];
+  includePaths?: string[];
+  useDefaultExcludes?: boolean;
+  codeInsights?: boolean;
+  buildStatus?: boolean;
+  requestChangesOn?: RequestChangesOn;
+  approveWhenClean?: boolean;
+  severityThreshold?: Severity;
+  reviewInstructions?: string;
+  reviewCommentMode?: ReviewCommentMode;
+  tools?: {
+    /** Tools for review mode and informational requests */
+    readOnly?: string[];
+    /** Tools for actionable requests */
+    fullAccess?: string[];
+  };
+}
+
+/** Result of loading the config file */
+export interface RepoConfigResult {
+  /** Where the file was read from, e.g. "origin/main:.claude-review.yml" (undefined if none exists) */
+  path?: string;
+  values: RepoConfig;
+  errors: string[];
+}
+
+/**
+ * Find and load the repository config file from the destination branch
+ */
+export function loadRepoConfig(destinationBranch: string): RepoConfigResult {
+  const name = REPO_CONFIG_FILES.find(
+    (file) => readDestinationFile(destinationBranch, file) !== null
+  );
+  if (!name) {
+    return { values: {}, errors: [] };
+  }
+
+  const path = `origin/${destinationBranch}:${name}`;
+  let raw: unknown;
+  try {
+    const text = readDestinationFile(destinationBranch, name)!;
+    raw = name.endsWith(".json") ? JSON.parse(text) : Bun.YAML.parse(text);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    return { path, values: {}, errors: [`${name}: could not parse file - ${message}`] };
+  }
+
+  return { path, ...parseRepoConfig(raw, name) };
+}
+
+/**
+ * Validate raw config file contents
+ * Every error names the file and the offending key
+ */
+export function parseRepoConfig(
+  raw: unknown,
+  source: string
+): { values: RepoConfig; errors: string[] } {
+  const values: RepoConfig = {};
+  const errors: string[] = [];
+
+  // An empty file parses to null - treat it as "no settings"
+  if (raw === null || raw === undefined) {
+    return { values, errors };
+  }
+
+  if (typeof raw !== "object" || Array.isArray(raw)) {
+    return { values, errors: [`${source}: expected a mapping of settings at the top level`] };
+  }
+
+  const error = (key: string, message: string, value: unknown) =>
+    errors.push(`${source}: "${key}" ${message} (got ${JSON.stringify(value)})`);
+
+  for (const [key, value] of Object.entries(raw)) {
+    switch (key) {
+      case "model":
+      case "triggerPhrase":
+      case "reviewInstructions":
+        if (typeof value === "string" && value.trim()) {
+          values[key] = value.trim();
+        } else {
+          error(key, "must be a non-empty string", value);
+        }
+        break;
+
+      case "maxTurns":
+        if (typeof value === "number" && Number.isInteger(value) && value > 0) {
+          values.maxTurns = value;
+        } else {
+          error(key, "must be a positive integer", value);
+        }
+        break;
+
+      case "ignorePaths":
+      case "includePaths":
+        if (isStringArray(value)) {
+          values[key] = value;
+        } else {
+          error(key, "must be a list of glob patterns", value);
+        }
+        break;
+
+      case "useDefaultExcludes":
+      case "codeInsights":
+      case "buildStatus":
+      case "approveWhenClean":
+        if (typeof value === "boolean") {
+          values[key] = value;
+        } else {
+          error(key, "must be true or false", value);
+        }
+        break;
+
+      case "severityThreshold":
+        if (typeof value === "string" && isValidSeverity(value)) {
+          values.severityThreshold = value;
+        } else {
+          error(key, "must be one of: minor, important, critical", value);
+        }
+        break;
+
+      case "requestChangesOn":
+        if (typeof value === "string" && isValidRequestChangesOn(value)) {
+          values.requestChangesOn = value;
+        } else {
+          error(key, "must be one of: never, minor, important, critical", value);
+        }
+        break;
+
+      case "reviewCommentMode":
+        if (typeof value === "string" && isValidReviewCommentMode(value)) {
+          values.reviewCommentMode = value;
+        } else {
+          error(key, "must be one of: edit, replace, append", value);
+        }
+        break;
+
+      case "tools":
+        if (value && typeof value === "object" && !Array.isArray(value)) {
+          values.tools = parseTools(value, (subKey, message, subValue) =>
+            error(`tools.${subKey}`, message, subValue)
+          );
+        } else {
+          error(key, "must be a mapping with readOnly and/or fullAccess lists", value);
+        }
+        break;
+
+      default:
+        errors.push(`${source}: unknown key "${key}" (valid keys: ${VALID_KEYS.join(", ")})`);
+    }
+  }
+
+  return { values, errors };
+}
+
+const VALID_KEYS = [
+  "model",
+  "maxTurns",
+  "triggerPhrase",
+  "ignorePaths",
+  "includePaths",
+  "useDefaultExcludes",
+  "codeInsights",
+  "buildStatus",
+  "requestChangesOn",
+  "approveWhenClean",
+  "severityThreshold",
+  "reviewInstructions",
+  "reviewCommentMode",
+  "tools",
+];
+
+// Helper: validate the `tools` section
+function parseTools(
+  value: object,
+  error: (key: string, message: string, value: unknown) => void
+): RepoConfig["tools"] {
+  const tools: NonNullable<RepoConfig["tools"]> = {};
+
+  for (const [key, list] of Object.entries(value)) {
+    if (key !== "readOnly" && key !== "fullAccess") {
+      error(key, "is not a tool set (valid: readOnly, fullAccess)", list);
+      continue;
+    }
+
+    if (!isStringArray(list)) {
+      error(key, "must be a list of tool names", list);
+      continue;
+    }
+
+    // Allow CLI permission patterns like "Bash(git diff:*)"
+    const names = list.map((tool) => tool.replace(/\(.*\)$/, ""));
+    const unknown = list.filter((_, i) => !KNOWN_TOOLS.includes(names[i]!));
+    if (unknown.length > 0) {
+      error(key, `contains unknown tools (valid: ${KNOWN_TOOLS.join(", ")})`, unknown);
+      continue;
+    }
+
+    // Review mode runs with credentials in its environment - only tools that just read
+    const choices: readonly string[] = READ_ONLY_TOOL_CHOICES;
+    const notReadOnly = list.filter((_, i) => !choices.includes(names[i]!));
+    if (key === "readOnly" && notReadOnly.length > 0) {
+      error(
+        key,
+        `may only contain read-only tools (${READ_ONLY_TOOL_CHOICES.join(", ")})`,
+        notReadOnly
+      );
+      continue;
+    }
+
+    tools[key] = list;
+  }
+
+  return tools;
+}
+
+// Helper: check for an array of strings
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((item) => typeof item === "string");
+}
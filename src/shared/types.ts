@@ -11,18 +11,155 @@ export interface ModeResult {
 /** Result from review mode */
 export interface ReviewResult extends ModeResult {
   reviewPosted: boolean;
+  inlineComments?: number;
+  /** ID of the review summary comment */
+  commentId?: number;
+  /** Whether findings were published as a Code Insights report */
+  reportPublished?: boolean;
+  /** Approval state review mode left on the PR */
+  decision?: ReviewDecision;
+}
+
+/** Which Bitbucket the tool talks to: Cloud or Server / Data Center */
+export type ProviderKind = "cloud" | "server";
+
+/** Type guard to check if a string is a valid provider kind */
+export function isValidProviderKind(value: string): value is ProviderKind {
+  return value === "cloud" || value === "server";
+}
+
+/**
+ * Spending limits (0 = no limit)
+ * The run limits cap one pipeline run, the PR limits everything spent on the PR so far
+ */
+export interface CostBudget {
+  runTokens: number;
+  runUsd: number;
+  prTokens: number;
+  prUsd: number;
+}
+
+/** Tokens and dollars spent (or estimated) */
+export interface Spend {
+  tokens: number;
+  usd: number;
+}
+
+/** Approval state the bot holds on a PR */
+export type ReviewDecision = "approve" | "request_changes" | "none";
+
+/** Lowest severity that makes review mode request changes ("never" to disable) */
+export type RequestChangesOn = Severity | "never";
+
+/** Type guard to check if a string is a valid request-changes policy */
+export function isValidRequestChangesOn(value: string): value is RequestChangesOn {
+  return value === "never" || isValidSeverity(value);
+}
+
+/**
+ * How review mode publishes its summary comment on reruns
+ * - edit: update the previous review comment in place
+ * - replace: delete the previous review comment and post a new one
+ * - append: always post a new comment
+ */
+export type ReviewCommentMode = "edit" | "replace" | "append";
+
+/** Type guard to check if a string is a valid review comment mode */
+export function isValidReviewCommentMode(value: string): value is ReviewCommentMode {
+  return value === "edit" || value === "replace" || value === "append";
+}
+
+/** Severity of a review finding */
+export type Severity = "critical" | "important" | "minor";
+
+/** A single structured finding produced by review mode */
+export interface ReviewFinding {
+  file: string;
+  line: number;
+  severity: Severity;
+  message: string;
+  suggestion?: string;
+}
+
+/** A file (or part of one) that was left out of the review */
+export interface SkippedFile {
+  path: string;
+  reason: string;
+}
+
+/** Which files a review actually covered */
+export interface ReviewCoverage {
+  reviewed: string[];
+  /** Files that should have been reviewed but couldn't be (size, batch limit) */
+  skipped: SkippedFile[];
+  /** Files deliberately left out by the diff filters */
+  excluded: SkippedFile[];
+}
+
+/** Commit state a review was made against, embedded (hidden) in the review comment */
+export interface ReviewMetadata {
+  headSha: string;
+  baseSha: string;
+  /**
+   * Most severe finding still open at this head - the next run reviews the full diff
+   * again while any are open, so they can be confirmed fixed
+   */
+  openSeverity?: Severity;
+}
+
+/** Type guard to check if a string is a valid severity */
+export function isValidSeverity(value: string): value is Severity {
+  return value === "critical" || value === "important" || value === "minor";
 }
 
 /** Result from tag mode */
 export interface TagResult extends ModeResult {
   responded: boolean;
   commentId?: number;
+  commitSha?: string;
+  /** Trigger comments answered in this run */
+  respondedTo?: number[];
+}
+
+/** Slash commands understood in trigger comments, e.g. `@claude /explain` */
+export type TagCommandName = "review" | "explain" | "fix" | "tests" | "summarize" | "help";
+
+/** A slash command parsed from a trigger comment (`/help` takes no arguments) */
+export type TagCommand =
+  | { name: "help" }
+  | {
+      name: Exclude<TagCommandName, "help">;
+      /** File (and optionally lines) the command is about */
+      target?: { path: string; from?: number; to?: number };
+      /** Free text after the command and target */
+      args: string;
+    };
+
+/** Outcome of committing and pushing Claude's edits for an actionable request */
+export type CodeChangeOutcome =
+  | { status: "none" }
+  | { status: "pushed"; sha: string; branch: string; diffStat: string }
+  | { status: "failed"; error: string };
+
+/** Result from describe mode */
+export interface DescribeResult extends ModeResult {
+  /** Whether the PR description was changed */
+  updated: boolean;
+}
+
+/** Generated PR description, section by section */
+export interface PRDescription {
+  summary: string;
+  motivation: string;
+  changes: string[];
+  testing: string;
+  risk: string;
 }
 
 /** Valid mode types */
-export type Mode = "review" | "tag";
+export type Mode = "review" | "tag" | "describe";
 
 /** Type guard to check if a string is a valid mode */
 export function isValidMode(value: string): value is Mode {
-  return value === "review" || value === "tag";
+  return value === "review" || value === "tag" || value === "describe";
 }
@@ -4,6 +4,35 @@
 
 import type { ClaudeUsage } from "../services/claude";
 import { logger } from "../utils/logger";
+import { CHARS_PER_TOKEN } from "./constants";
+
+/**
+ * Rough token estimate for a piece of text (no tokenizer available offline)
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+/**
+ * Add two usage records together (e.g. across review batches)
+ */
+export function addUsage(
+  a: ClaudeUsage | undefined,
+  b: ClaudeUsage | undefined
+): ClaudeUsage | undefined {
+  if (!a) return b;
+  if (!b) return a;
+
+  return {
+    inputTokens: a.inputTokens + b.inputTokens,
+    outputTokens: a.outputTokens + b.outputTokens,
+    totalTokens: a.totalTokens + b.totalTokens,
+    costUsd:
+      a.costUsd === undefined && b.costUsd === undefined
+        ? undefined
+        : (a.costUsd ?? 0) + (b.costUsd ?? 0),
+  };
+}
 
 /**
  * Log Claude API usage information
@@ -0,0 +1,156 @@
+/**
+ * Diff filtering
+ * Decides which files of a diff are sent to Claude for review
+ *
+ * Order of checks for each file:
+ * 1. Binary files
+ * 2. Configured exclude patterns (`ignorePaths`)
+ * 3. Configured include patterns (`includePaths`) - if set, anything else is dropped
+ * 4. `linguist-generated` / `linguist-vendored` in .gitattributes (on the destination branch)
+ * 5. Built-in defaults for lockfiles, vendored and generated files
+ * 6. Minified content (very long added lines in JavaScript or CSS)
+ */
+
+import {
+  DEFAULT_EXCLUDES,
+  MAX_REVIEWABLE_LINE_LENGTH,
+  MINIFIABLE_EXTENSIONS,
+  type SkippedFile,
+} from "../shared";
+import type { FileDiff } from "./diff";
+import { readDestinationFile } from "./git";
+
+/** Rules deciding which files are reviewed */
+export interface DiffFilterRules {
+  include: string[];
+  exclude: string[];
+  useDefaults: boolean;
+  /** Patterns marked generated/vendored in .gitattributes */
+  generated: string[];
+  /** Patterns explicitly un-marked in .gitattributes (e.g. `-linguist-generated`) */
+  notGenerated: string[];
+}
+
+/**
+ * Check whether a path matches any of the glob patterns
+ */
+export function matchesAny(path: string, patterns: string[]): string | undefined {
+  return patterns.find((pattern) => new Bun.Glob(pattern).match(path));
+}
+
+/**
+ * Split diff files into those to review and those excluded (with the reason)
+ */
+export function filterDiffFiles(
+  files: FileDiff[],
+  rules: DiffFilterRules
+): { files: FileDiff[]; excluded: SkippedFile[] } {
+  const kept: FileDiff[] = [];
+  const excluded: SkippedFile[] = [];
+
+  for (const file of files) {
+    const reason = exclusionReason(file, rules);
+    if (reason) {
+      excluded.push({ path: file.path, reason });
+    } else {
+      kept.push(file);
+    }
+  }
+
+  return { files: kept, excluded };
+}
+
+// Helper: why a file is excluded, or null if it should be reviewed
+function exclusionReason(file: FileDiff, rules: DiffFilterRules): string | null {
+  const { path } = file;
+
+  if (file.isBinary) {
+    return "binary file";
+  }
+
+  const ignored = matchesAny(path, rules.exclude);
+  if (ignored) {
+    return `ignored by config (\`${ignored}\`)`;
+  }
+
+  if (rules.include.length > 0 && !matchesAny(path, rules.include)) {
+    return "not matched by includePaths";
+  }
+
+  if (matchesAny(path, rules.generated)) {
+    return "marked generated/vendored in .gitattributes";
+  }
+
+  if (rules.useDefaults && !matchesAny(path, rules.notGenerated)) {
+    for (const [kind, patterns] of Object.entries(DEFAULT_EXCLUDES)) {
+      if (matchesAny(path, patterns)) {
+        return kind;
+      }
+    }
+  }
+
+  // A long line elsewhere (a data table, an embedded key) is no reason to skip the whole file
+  if (!MINIFIABLE_EXTENSIONS.some((extension) => path.endsWith(extension))) {
+    return null;
+  }
+
+  const addedLines = file.hunks.flatMap((h) => h.lines).filter((l) => l.startsWith("+"));
+  if (addedLines.some((line) => line.length > MAX_REVIEWABLE_LINE_LENGTH)) {
+    return "minified or generated content (very long lines)";
+  }
+
+  return null;
+}
+
+/**
+ * Read `linguist-generated` / `linguist-vendored` patterns from .gitattributes
+ * on the destination branch - a PR can't hide its own files from review
+ */
+export function loadGitattributesRules(destinationBranch: string): {
+  generated: string[];
+  notGenerated: string[];
+} {
+  const content = readDestinationFile(destinationBranch, ".gitattributes");
+  return content ? parseGitattributes(content) : { generated: [], notGenerated: [] };
+}
+
+/**
+ * Parse .gitattributes content into glob patterns
+ */
+export function parseGitattributes(content: string): {
+  generated: string[];
+  notGenerated: string[];
+} {
+  const generated: string[] = [];
+  const notGenerated: string[] = [];
+
+  for (const rawLine of content.split("\n")) {
+    const line = rawLine.trim();
+    if (!line || line.startsWith("#")) continue;
+
+    const [pattern, ...attributes] = line.split(/\s+/);
+    if (!pattern) continue;
+
+    for (const attribute of attributes) {
+      const match = attribute.match(/^(-?)linguist-(generated|vendored)(?:=(\w+))?$/);
+      if (!match) continue;
+
+      const unset = match[1] === "-" || match[3] === "false";
+      (unset ? notGenerated : generated).push(toGlob(pattern));
+    }
+  }
+
+  return { generated, notGenerated };
+}
+
+// Helper: convert a gitattributes pattern to a glob
+// (no slash = match at any depth, leading slash = anchored to the root)
+function toGlob(pattern: string): string {
+  let glob = pattern;
+  if (glob.startsWith("/")) {
+    glob = glob.substring(1);
+  } else if (!glob.includes("/")) {
+    glob = `**/${glob}`;
+  }
+  return glob.endsWith("/") ? `${glob}**` : glob;
+}
@@ -0,0 +1,251 @@
+/**
+ * Unified diff parsing
+ * Splits `git diff` output into files and hunks so findings can be
+ * mapped back onto the lines that were actually changed
+ */
+
+import { estimateTokens, type SkippedFile } from "../shared";
+
+export interface DiffHunk {
+  oldStart: number;
+  oldLines: number;
+  newStart: number;
+  newLines: number;
+  header: string;
+  lines: string[];
+}
+
+export interface FileDiff {
+  /** Path on the new side (old path for deleted files) */
+  path: string;
+  oldPath: string;
+  isNew: boolean;
+  isDeleted: boolean;
+  isBinary: boolean;
+  hunks: DiffHunk[];
+  /** File header lines (`diff --git`, `index`, `---`, `+++`) before the first hunk */
+  header: string;
+  /** Raw diff text for this file, including the `diff --git` header */
+  raw: string;
+}
+
+const HUNK_HEADER = /^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/;
+
+/**
+ * Parse unified diff output into per-file sections
+ */
+export function parseDiff(diff: string): FileDiff[] {
+  const files: FileDiff[] = [];
+  const sections = diff.split(/^(?=diff --git )/m).filter((s) => s.startsWith("diff --git "));
+
+  for (const raw of sections) {
+    const lines = raw.split("\n");
+    const header = lines[0] ?? "";
+    const match = header.match(/^diff --git a\/(.+) b\/(.+)$/);
+
+    let oldPath = match?.[1] ?? "";
+    let path = match?.[2] ?? "";
+    let isNew = false;
+    let isDeleted = false;
+    let isBinary = false;
+    const hunks: DiffHunk[] = [];
+    const headerLines: string[] = [header];
+    let current: DiffHunk | null = null;
+
+    for (const line of lines.slice(1)) {
+      const hunkMatch = line.match(HUNK_HEADER);
+      if (hunkMatch) {
+        current = {
+          oldStart: parseInt(hunkMatch[1] ?? "0", 10),
+          oldLines: hunkMatch[2] !== undefined ? parseInt(hunkMatch[2], 10) : 1,
+          newStart: parseInt(hunkMatch[3] ?? "0", 10),
+          newLines: hunkMatch[4] !== undefined ? parseInt(hunkMatch[4], 10) : 1,
+          header: line,
+          lines: [],
+        };
+        hunks.push(current);
+        continue;
+      }
+
+      if (current) {
+        current.lines.push(line);
+        continue;
+      }
+
+      // File header lines (before the first hunk)
+      headerLines.push(line);
+      if (line.startsWith("new file mode")) {
+        isNew = true;
+      } else if (line.startsWith("deleted file mode")) {
+        isDeleted = true;
+      } else if (line.startsWith("Binary files ") || line.startsWith("GIT binary patch")) {
+        isBinary = true;
+      } else if (line.startsWith("--- a/")) {
+        oldPath = line.substring(6);
+      } else if (line.startsWith("+++ b/")) {
+        path = line.substring(6);
+      }
+    }
+
+    if (isDeleted) {
+      path = oldPath;
+    }
+
+    files.push({
+      path,
+      oldPath,
+      isNew,
+      isDeleted,
+      isBinary,
+      hunks,
+      header: headerLines.join("\n").trimEnd(),
+      raw,
+    });
+  }
+
+  return files;
+}
+
+/**
+ * Get the new-side line numbers covered by a file's hunks
+ * (added and context lines - the lines Bitbucket accepts inline comments on)
+ */
+export function getCommentableLines(file: FileDiff): Set<number> {
+  const result = new Set<number>();
+
+  for (const hunk of file.hunks) {
+    let line = hunk.newStart;
+
+    for (const text of hunk.lines) {
+      if (text.startsWith("+") || text.startsWith(" ")) {
+        result.add(line);
+        line++;
+      }
+      // "-" lines and "\ No newline at end of file" don't exist on the new side
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Find the hunk covering a line on the new (or old) side of a file diff
+ */
+export function findHunkForLine(
+  file: FileDiff,
+  line: number,
+  side: "new" | "old" = "new"
+): DiffHunk | null {
+  for (const hunk of file.hunks) {
+    const start = side === "new" ? hunk.newStart : hunk.oldStart;
+    const count = side === "new" ? hunk.newLines : hunk.oldLines;
+    if (line >= start && line < start + Math.max(count, 1)) {
+      return hunk;
+    }
+  }
+  return null;
+}
+
+/** A group of file diffs small enough to review in one Claude call */
+export interface DiffBatch {
+  files: string[];
+  diff: string;
+  tokens: number;
+}
+
+// A reviewable slice of one file: the whole file, or a group of its hunks
+interface DiffPiece {
+  path: string;
+  text: string;
+  tokens: number;
+}
+
+/**
+ * Split parsed file diffs into token-budgeted batches
+ *
+ * Files that fit the budget stay whole; larger files are split into groups
+ * of hunks. Anything that can't be reviewed is reported in `skipped`.
+ */
+export function batchDiff(
+  files: FileDiff[],
+  maxTokens: number,
+  maxBatches: number
+): { batches: DiffBatch[]; skipped: SkippedFile[] } {
+  const skipped: SkippedFile[] = [];
+  const pieces: DiffPiece[] = [];
+
+  for (const file of files) {
+    if (file.isBinary) {
+      skipped.push({ path: file.path, reason: "binary file" });
+      continue;
+    }
+
+    const tokens = estimateTokens(file.raw);
+    if (tokens <= maxTokens) {
+      pieces.push({ path: file.path, text: file.raw, tokens });
+      continue;
+    }
+
+    pieces.push(...splitFile(file, maxTokens, skipped));
+  }
+
+  const batches: DiffBatch[] = [];
+  let current: DiffBatch | null = null;
+
+  for (const piece of pieces) {
+    if (!current || current.tokens + piece.tokens > maxTokens) {
+      if (batches.length >= maxBatches) {
+        skipped.push({ path: piece.path, reason: `batch limit reached (${maxBatches} batches)` });
+        continue;
+      }
+      current = { files: [], diff: "", tokens: 0 };
+      batches.push(current);
+    }
+
+    current.diff += current.diff ? `\n${piece.text}` : piece.text;
+    current.tokens += piece.tokens;
+    if (!current.files.includes(piece.path)) {
+      current.files.push(piece.path);
+    }
+  }
+
+  return { batches, skipped };
+}
+
+// Helper: split an oversized file into hunk groups that each fit the budget
+function splitFile(file: FileDiff, maxTokens: number, skipped: SkippedFile[]): DiffPiece[] {
+  const pieces: DiffPiece[] = [];
+  const headerTokens = estimateTokens(file.header);
+  let hunkTexts: string[] = [];
+  let tokens = headerTokens;
+
+  const flush = () => {
+    if (hunkTexts.length === 0) return;
+    pieces.push({ path: file.path, text: [file.header, ...hunkTexts].join("\n"), tokens });
+    hunkTexts = [];
+    tokens = headerTokens;
+  };
+
+  for (const hunk of file.hunks) {
+    const text = [hunk.header, ...hunk.lines].join("\n").trimEnd();
+    const hunkTokens = estimateTokens(text);
+
+    if (headerTokens + hunkTokens > maxTokens) {
+      skipped.push({
+        path: file.path,
+        reason: `hunk at line ${hunk.newStart} is too large to review`,
+      });
+      continue;
+    }
+
+    if (tokens + hunkTokens > maxTokens) {
+      flush();
+    }
+
+    hunkTexts.push(text);
+    tokens += hunkTokens;
+  }
+
+  flush();
+  return pieces;
+}
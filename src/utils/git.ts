@@ -3,7 +3,7 @@
  * Run git commands in the repository directory
  */
 
-import { execSync } from "child_process";
+import { execFileSync } from "child_process";
 import { logger } from "./logger";
 
 /**
@@ -17,19 +17,29 @@ function getRepoDir(): string {
 }
 
 /**
- * Run a git command in the repository directory
+ * Run git in the repository directory
+ * Arguments are passed as-is, without a shell - branch names and paths can't inject commands
  */
-function gitExec(command: string, options: { maxBuffer?: number } = {}): string {
+function gitExec(args: string[], options: { maxBuffer?: number; input?: string } = {}): string {
   const cwd = getRepoDir();
-  logger.debug(`Running in ${cwd}: ${command}`);
+  logger.debug(`Running in ${cwd}: git ${args.join(" ")}`);
 
-  return execSync(command, {
+  return execFileSync("git", args, {
     encoding: "utf-8",
     cwd,
+    input: options.input,
+    stdio: "pipe",
     maxBuffer: options.maxBuffer || 10 * 1024 * 1024, // 10MB default
   });
 }
 
+// Helper: get stderr (or message) from a failed git call
+function execErrorOutput(error: unknown): string {
+  const stderr = (error as { stderr?: Buffer | string })?.stderr;
+  if (stderr && stderr.toString().trim()) return stderr.toString().trim();
+  return error instanceof Error ? error.message : String(error);
+}
+
 /**
  * Get the diff between current HEAD and destination branch
  */
@@ -37,13 +47,13 @@ export function getLocalDiff(destinationBranch: string): string {
   try {
     // Fetch to ensure we have the latest remote refs
     try {
-      gitExec("git fetch origin");
+      gitExec(["fetch", "origin"]);
     } catch {
       logger.debug("git fetch failed, continuing with local refs");
     }
 
     // Get diff between destination branch and HEAD
-    const diff = gitExec(`git diff origin/${destinationBranch}...HEAD`);
+    const diff = gitExec(["diff", `origin/${destinationBranch}...HEAD`]);
     return diff;
   } catch (error) {
     logger.error("Failed to get git diff:", error);
@@ -56,7 +66,7 @@ export function getLocalDiff(destinationBranch: string): string {
  */
 export function getChangedFiles(destinationBranch: string): string[] {
   try {
-    const output = gitExec(`git diff --name-only origin/${destinationBranch}...HEAD`);
+    const output = gitExec(["diff", "--name-only", `origin/${destinationBranch}...HEAD`]);
     return output.trim().split("\n").filter(Boolean);
   } catch (error) {
     logger.error("Failed to get changed files:", error);
@@ -69,19 +79,207 @@ export function getChangedFiles(destinationBranch: string): string[] {
  */
 export function getFileDiff(destinationBranch: string, filePath: string): string {
   try {
-    return gitExec(`git diff origin/${destinationBranch}...HEAD -- "${filePath}"`);
+    return gitExec(["diff", `origin/${destinationBranch}...HEAD`, "--", filePath]);
   } catch (error) {
     logger.error(`Failed to get diff for ${filePath}:`, error);
     return "";
   }
 }
 
+/**
+ * Get the messages of the commits on HEAD that are not on the destination branch, oldest first
+ */
+export function getCommitMessages(destinationBranch: string): string[] {
+  try {
+    const output = gitExec([
+      "log",
+      "--reverse",
+      "--format=%B%x00",
+      `origin/${destinationBranch}..HEAD`,
+    ]);
+    return output
+      .split("\0")
+      .map((message) => message.trim())
+      .filter(Boolean);
+  } catch (error) {
+    logger.error("Failed to get commit messages:", error);
+    return [];
+  }
+}
+
+/**
+ * Read a file as it is on the destination branch (null if it doesn't exist there)
+ * Settings are read from there so a PR can't change how it is itself reviewed
+ */
+export function readDestinationFile(destinationBranch: string, path: string): string | null {
+  try {
+    return gitExec(["show", `origin/${destinationBranch}:${path}`]);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Get the commit SHA of HEAD
+ */
+export function getHeadSha(): string {
+  try {
+    return gitExec(["rev-parse", "HEAD"]).trim();
+  } catch {
+    return "";
+  }
+}
+
+/**
+ * Get the merge base of HEAD and the destination branch
+ */
+export function getMergeBase(destinationBranch: string): string {
+  try {
+    return gitExec(["merge-base", `origin/${destinationBranch}`, "HEAD"]).trim();
+  } catch {
+    return "";
+  }
+}
+
+/**
+ * Check whether a commit is an ancestor of HEAD
+ * False if the commit is unknown (e.g. dropped by a force-push)
+ */
+export function isAncestorOfHead(sha: string): boolean {
+  try {
+    gitExec(["merge-base", "--is-ancestor", sha, "HEAD"]);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Get the diff between a previous commit and HEAD (the "interdiff")
+ */
+export function getDiffSince(sha: string): string {
+  try {
+    return gitExec(["diff", sha, "HEAD"]);
+  } catch (error) {
+    logger.error(`Failed to get diff since ${sha}:`, error);
+    return "";
+  }
+}
+
+/**
+ * Get the paths with uncommitted changes (including untracked files)
+ */
+export function getUncommittedPaths(): string[] {
+  try {
+    const fields = gitExec(["status", "--porcelain", "-z", "--untracked-files=all"]).split("\0");
+    const paths: string[] = [];
+
+    for (let i = 0; i < fields.length; i++) {
+      const entry = fields[i]!;
+      if (entry.length < 4) continue;
+      paths.push(entry.substring(3));
+      // Renames and copies are followed by the original path
+      if (entry[0] === "R" || entry[0] === "C") paths.push(fields[++i] ?? "");
+    }
+
+    return paths.filter(Boolean);
+  } catch (error) {
+    logger.error("Failed to get git status:", error);
+    return [];
+  }
+}
+
+/**
+ * Stage and commit the changes to the given paths (and nothing else)
+ * Returns the new commit SHA, or null if the commit failed
+ */
+export function commitPaths(
+  paths: string[],
+  message: string,
+  author: { name: string; email: string }
+): string | null {
+  try {
+    gitExec(["--literal-pathspecs", "add", "-A", "--", ...paths]);
+    gitExec(
+      [
+        "--literal-pathspecs",
+        "-c",
+        `user.name=${author.name}`,
+        "-c",
+        `user.email=${author.email}`,
+        "commit",
+        "-F",
+        "-",
+        "--",
+        ...paths,
+      ],
+      { input: message }
+    );
+    return getHeadSha() || null;
+  } catch (error) {
+    logger.error("Failed to commit changes:", execErrorOutput(error));
+    return null;
+  }
+}
+
+/**
+ * Get a diffstat summary between two commits
+ */
+export function getDiffStat(fromSha: string, toSha = "HEAD"): string {
+  try {
+    return gitExec(["diff", "--stat", fromSha, toSha]).trimEnd();
+  } catch {
+    return "";
+  }
+}
+
+/** Result of pushing to the remote */
+export interface PushResult {
+  success: boolean;
+  error?: string;
+}
+
+/**
+ * Push HEAD to a branch on origin
+ * Failures are translated into a message suitable for posting back to the PR
+ */
+export function pushHead(branch: string): PushResult {
+  try {
+    gitExec(["push", "origin", `HEAD:refs/heads/${branch}`]);
+    return { success: true };
+  } catch (error) {
+    const output = execErrorOutput(error);
+    logger.error("git push failed:", output);
+    return { success: false, error: describePushFailure(branch, output) };
+  }
+}
+
+// Helper: turn git push stderr into a human readable reason
+function describePushFailure(branch: string, output: string): string {
+  const lower = output.toLowerCase();
+
+  if (lower.includes("non-fast-forward") || lower.includes("fetch first")) {
+    return `\`${branch}\` has moved since this pipeline started - new commits were pushed in the meantime`;
+  }
+
+  if (
+    lower.includes("protected") ||
+    lower.includes("pre-receive hook declined") ||
+    lower.includes("permission") ||
+    lower.includes("403")
+  ) {
+    return `pushing to \`${branch}\` is not allowed (protected branch or missing write permission)`;
+  }
+
+  return output.split("\n").slice(-3).join(" ").trim() || "git push failed";
+}
+
 /**
  * Get current branch name
  */
 export function getCurrentBranch(): string {
   try {
-    return gitExec("git rev-parse --abbrev-ref HEAD").trim();
+    return gitExec(["rev-parse", "--abbrev-ref", "HEAD"]).trim();
   } catch {
     return "unknown";
   }
@@ -92,7 +290,7 @@ export function getCurrentBranch(): string {
  */
 export function getLastCommitMessage(): string {
   try {
-    return gitExec("git log -1 --pretty=%B").trim();
+    return gitExec(["log", "-1", "--pretty=%B"]).trim();
   } catch {
     return "";
   }
@@ -1,7 +1,10 @@
 /**
  * Simple logger with levels and formatting
+ * Messages are redacted - secrets never reach the log
  */
 
+import { redact } from "./redact";
+
 type LogLevel = "debug" | "info" | "warn" | "error";
 
 let verboseMode = false;
@@ -14,7 +17,15 @@ function timestamp(): string {
   return new Date().toISOString();
 }
 
-function log(level: LogLevel, ...args: unknown[]) {
+// Helper: mask secrets in strings and errors (other values are logged as-is)
+function redactArg(arg: unknown): unknown {
+  if (typeof arg === "string") return redact(arg);
+  if (arg instanceof Error) return redact(arg.stack ?? arg.message);
+  return arg;
+}
+
+function log(level: LogLevel, ...rawArgs: unknown[]) {
+  const args = rawArgs.map(redactArg);
   const prefix = `[${timestamp()}] [${level.toUpperCase()}]`;
 
   switch (level) {
@@ -0,0 +1,90 @@
+/**
+ * Secret redaction
+ * Masks known config secrets and common credential formats before text is logged,
+ * sent to Claude or posted to Bitbucket
+ */
+
+import { SECRET_PATTERNS } from "../shared/constants";
+import type { FileDiff } from "./diff";
+
+/** Replacement for known config secrets */
+export const REDACTED = "[REDACTED]";
+
+/** Values shorter than this are not registered - masking them would mangle ordinary text */
+const MIN_SECRET_LENGTH = 8;
+
+/** A credential found on an added line of a diff */
+export interface DiffSecret {
+  path: string;
+  line: number;
+  label: string;
+}
+
+// Known secret values, longest first (so a secret containing another is masked whole)
+let knownSecrets: string[] = [];
+
+/**
+ * Remember secret values (tokens, API keys) so they are always masked
+ */
+export function registerSecrets(...values: string[]): void {
+  const added = values.map((v) => v.trim()).filter((v) => v.length >= MIN_SECRET_LENGTH);
+  knownSecrets = [...new Set([...knownSecrets, ...added])].sort((a, b) => b.length - a.length);
+}
+
+/**
+ * Forget all registered secrets (for tests)
+ */
+export function clearSecrets(): void {
+  knownSecrets = [];
+}
+
+/**
+ * Mask registered secrets and anything that looks like a credential
+ */
+export function redact(text: string): string {
+  let result = text;
+
+  for (const secret of knownSecrets) {
+    result = result.split(secret).join(REDACTED);
+  }
+
+  for (const { label, pattern } of SECRET_PATTERNS) {
+    result = result.replace(pattern, `[REDACTED ${label}]`);
+  }
+
+  return result;
+}
+
+/**
+ * Labels of the credential formats found in text
+ */
+export function findSecrets(text: string): string[] {
+  return SECRET_PATTERNS.filter(({ pattern }) => text.match(pattern)).map(({ label }) => label);
+}
+
+/**
+ * Find credentials on the lines a diff adds
+ * (removed and context lines are not the PR's doing)
+ */
+export function findDiffSecrets(files: FileDiff[]): DiffSecret[] {
+  const found: DiffSecret[] = [];
+
+  for (const file of files) {
+    if (file.isBinary || file.isDeleted) continue;
+
+    for (const hunk of file.hunks) {
+      let line = hunk.newStart;
+
+      for (const text of hunk.lines) {
+        if (text.startsWith("+")) {
+          for (const label of findSecrets(text.slice(1))) {
+            found.push({ path: file.path, line, label });
+          }
+        }
+        if (text.startsWith("+") || text.startsWith(" ")) line++;
+      }
+    }
+  }
+
+  return found;
+}
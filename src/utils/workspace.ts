@@ -0,0 +1,78 @@
+/**
+ * PR workspaces for the webhook server
+ * One clone per pull request under the work directory, reset to the PR's source branch for each run
+ */
+
+import { execFile } from "child_process";
+import { existsSync, mkdirSync } from "fs";
+import { join } from "path";
+import { promisify } from "util";
+import { buildAuthHeader } from "../services/http";
+import type { WebhookJob } from "../services/webhook";
+import { logger } from "./logger";
+
+const execFileAsync = promisify(execFile);
+
+/** Result of preparing a workspace */
+export interface CheckoutResult {
+  success: boolean;
+  /** Clone checked out on the PR source branch */
+  dir: string;
+  error?: string;
+}
+
+/**
+ * Directory a pull request is checked out in
+ */
+export function workspaceDir(workDir: string, job: WebhookJob): string {
+  return join(workDir, job.workspace, job.repoSlug, `pr-${job.prId}`);
+}
+
+/**
+ * Environment variables that hand the Bitbucket credentials to git for a single command
+ * Nothing is saved in the clone's config or shown on the command line
+ */
+export function gitAuthEnv(token: string): Record<string, string> {
+  const authHeader = buildAuthHeader(token);
+  if (!authHeader) return {};
+
+  return {
+    GIT_CONFIG_COUNT: "1",
+    GIT_CONFIG_KEY_0: "http.extraHeader",
+    GIT_CONFIG_VALUE_0: `Authorization: ${authHeader}`,
+  };
+}
+
+/**
+ * Clone (or update) the job's repository and check out the PR source branch
+ * Local changes from earlier runs are discarded
+ */
+export async function checkoutPullRequest(
+  workDir: string,
+  job: WebhookJob,
+  token: string
+): Promise<CheckoutResult> {
+  const dir = workspaceDir(workDir, job);
+  const env = { ...process.env, ...gitAuthEnv(token) };
+  const git = (...args: string[]) =>
+    execFileAsync("git", args, { cwd: dir, encoding: "utf-8", env });
+
+  try {
+    if (!existsSync(join(dir, ".git"))) {
+      logger.info(`Cloning ${job.workspace}/${job.repoSlug} into ${dir}`);
+      mkdirSync(dir, { recursive: true });
+      await git("clone", job.cloneUrl, ".");
+    }
+
+    await git("fetch", "--prune", "origin");
+    await git("checkout", "--force", "-B", job.sourceBranch, `origin/${job.sourceBranch}`);
+    await git("reset", "--hard", `origin/${job.sourceBranch}`);
+    await git("clean", "-fdx");
+    return { success: true, dir };
+  } catch (error) {
+    const stderr = (error as { stderr?: string })?.stderr?.trim();
+    const message = stderr || (error instanceof Error ? error.message : String(error));
+    logger.error(`Checkout of ${job.workspace}/${job.repoSlug} failed:`, message);
+    return { success: false, dir, error: message };
+  }
+}